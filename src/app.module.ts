@@ -1,4 +1,5 @@
 import { Module } from '@nestjs/common';
+import { join } from 'path';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { StatusModule } from './modules/status/status.module';
@@ -11,6 +12,7 @@ import { QueueTimesParserModule } from './modules/queue-times-parser/queue-times
 import { UtilsModule } from './modules/utils/utils.module';
 import { ScheduleModule } from '@nestjs/schedule';
 import { IndexModule } from './modules/index/index.module';
+import { HolidaysModule } from './modules/holidays/holidays.module';
 
 @Module({
   imports: [
@@ -29,7 +31,10 @@ import { IndexModule } from './modules/index/index.module';
         password: configService.get('DB_PASS', 'postgres'),
         database: configService.get('DB_NAME', 'parkfan'),
         autoLoadEntities: true,
-        synchronize: true,
+        // Schema changes only go through migrations, see main.ts for production
+        synchronize: false,
+        migrations: [join(__dirname, 'migrations', '*.js')],
+        migrationsRun: configService.get('NODE_ENV') !== 'production',
       }),
     }),
     StatusModule,
@@ -39,6 +44,7 @@ import { IndexModule } from './modules/index/index.module';
     CountriesModule,
     ContinentsModule,
     QueueTimesParserModule,
+    HolidaysModule,
     UtilsModule,
     IndexModule,
     ScheduleModule.forRoot(),
@@ -0,0 +1,60 @@
+import { Logger } from '@nestjs/common';
+import { writeFile } from 'fs/promises';
+import { parseArgs } from 'util';
+import { createCliContext, runCli } from './cli-context';
+import { RideForecastBacktestService } from '../modules/rides/ride-forecast-backtest.service.js';
+
+/**
+ * Evaluate the wait time forecast against recorded queue times.
+ *
+ * Usage: pnpm backtest:forecast [--days 14] [--park <id>] [--ride <id>] [--horizons 1,2,3] [--report <report.json>]
+ */
+async function backtestForecast(): Promise<void> {
+  const logger = new Logger('BacktestForecast');
+  const { values } = parseArgs({
+    options: {
+      days: { type: 'string', default: '14' },
+      park: { type: 'string' },
+      ride: { type: 'string' },
+      horizons: { type: 'string', default: '1,2,3' },
+      report: { type: 'string' },
+    },
+  });
+
+  const days = parseInt(values.days, 10);
+  const horizonsHours = values.horizons
+    .split(',')
+    .map((hours) => parseFloat(hours));
+  if (!(days > 0) || horizonsHours.some((hours) => !(hours > 0))) {
+    throw new Error('--days and --horizons must be positive numbers');
+  }
+
+  const app = await createCliContext();
+
+  try {
+    const report = await app.get(RideForecastBacktestService).run({
+      days,
+      parkId: values.park ? parseInt(values.park, 10) : undefined,
+      rideId: values.ride ? parseInt(values.ride, 10) : undefined,
+      horizonsHours,
+    });
+
+    logger.log(
+      `Backtest over ${days} days (${report.from.toISOString()} - ${report.to.toISOString()}) with ${report.trainingDays} training days for ${report.rides} rides`,
+    );
+    for (const horizon of report.horizons) {
+      logger.log(
+        `+${horizon.hours}h: MAE ${horizon.mae} min, RMSE ${horizon.rmse} min, bias ${horizon.bias} min, interval coverage ${(horizon.intervalCoverage * 100).toFixed(1)}% over ${horizon.predictions} predictions (profile only MAE ${horizon.profileOnlyMae}, persistence MAE ${horizon.persistenceMae})`,
+      );
+    }
+
+    if (values.report) {
+      await writeFile(values.report, JSON.stringify(report, null, 2));
+      logger.log(`Report written to ${values.report}`);
+    }
+  } finally {
+    await app.close();
+  }
+}
+
+runCli('BacktestForecast', backtestForecast);
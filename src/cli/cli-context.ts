@@ -0,0 +1,53 @@
+import { INestApplicationContext, Logger } from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { AppModule } from '../app.module';
+import {
+  assertNoPendingMigrations,
+  createDatabaseIfNotExists,
+  runPendingMigrations,
+} from '../database-setup';
+
+/**
+ * Boot the application for a CLI command: no HTTP server, no background jobs.
+ * Environment overrides are applied before the configuration is read. A database of
+ * the command's own (DB_NAME override, e.g. a replay scratch database) is migrated first.
+ */
+export async function createCliContext(
+  env: Record<string, string> = {},
+): Promise<INestApplicationContext> {
+  Object.assign(process.env, { BACKGROUND_JOBS_ENABLED: 'false' }, env);
+
+  await createDatabaseIfNotExists();
+  if (env.DB_NAME) {
+    await runPendingMigrations();
+  } else {
+    await assertNoPendingMigrations();
+  }
+
+  const app = await NestFactory.createApplicationContext(AppModule, {
+    logger: ['log', 'error', 'warn'],
+  });
+
+  // Cron jobs are started on bootstrap - stop them right away
+  const schedulerRegistry = app.get(SchedulerRegistry);
+  schedulerRegistry.getCronJobs().forEach((job) => {
+    void job.stop();
+  });
+
+  return app;
+}
+
+/**
+ * Run a CLI command and exit with a non-zero code on failure
+ */
+export function runCli(name: string, command: () => Promise<void>): void {
+  const logger = new Logger(name);
+
+  command()
+    .then(() => process.exit(0))
+    .catch((error: unknown) => {
+      logger.error(error instanceof Error ? error.message : error);
+      process.exit(1);
+    });
+}
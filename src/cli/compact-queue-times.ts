@@ -0,0 +1,61 @@
+import { Logger } from '@nestjs/common';
+import { writeFile } from 'fs/promises';
+import { parseArgs } from 'util';
+import { createCliContext, runCli } from './cli-context';
+import { QueueTimeRetentionService } from '../modules/rides/queue-time-retention.service.js';
+
+/**
+ * Apply the queue time retention policy now. Policy settings can be overridden,
+ * e.g. to see with --dry-run how many rows a retention period would affect.
+ *
+ * Usage: pnpm compact:queue-times [--dry-run] [--park <id>] [--retention-days 180] [--compress-after-days 30] [--report <report.json>]
+ */
+async function compactQueueTimes(): Promise<void> {
+  const logger = new Logger('CompactQueueTimes');
+  const { values } = parseArgs({
+    options: {
+      'dry-run': { type: 'boolean', default: false },
+      park: { type: 'string' },
+      'retention-days': { type: 'string' },
+      'compress-after-days': { type: 'string' },
+      report: { type: 'string' },
+    },
+  });
+
+  const env: Record<string, string> = {};
+  if (values['retention-days'] !== undefined) {
+    env.QUEUE_TIME_RETENTION_DAYS = values['retention-days'];
+  }
+  if (values['compress-after-days'] !== undefined) {
+    env.QUEUE_TIME_COMPRESS_AFTER_DAYS = values['compress-after-days'];
+  }
+
+  const app = await createCliContext(env);
+
+  try {
+    const retention = app.get(QueueTimeRetentionService);
+    if (!retention.isEnabled()) {
+      throw new Error(
+        'No retention policy configured - set QUEUE_TIME_RETENTION_DAYS or QUEUE_TIME_COMPRESS_AFTER_DAYS',
+      );
+    }
+
+    const report = await retention.compact({
+      dryRun: values['dry-run'],
+      parkId: values.park ? parseInt(values.park, 10) : undefined,
+    });
+
+    logger.log(
+      `${report.dryRun ? '[dry run] ' : ''}${report.deletedRows} samples older than ${report.retentionDays || '-'} days deleted and ${report.compressedRows} unchanged samples older than ${report.compressAfterDays || '-'} days compressed in ${report.parks} parks`,
+    );
+
+    if (values.report) {
+      await writeFile(values.report, JSON.stringify(report, null, 2));
+      logger.log(`Report written to ${values.report}`);
+    }
+  } finally {
+    await app.close();
+  }
+}
+
+runCli('CompactQueueTimes', compactQueueTimes);
@@ -0,0 +1,84 @@
+import { Logger } from '@nestjs/common';
+import { writeFile } from 'fs/promises';
+import { parseArgs } from 'util';
+import { createCliContext, runCli } from './cli-context';
+import {
+  QueueTimeImportReport,
+  QueueTimeImportService,
+} from '../modules/queue-times-parser/queue-time-import.service.js';
+
+/**
+ * Import historical queue times from CSV (.csv) or NDJSON files.
+ *
+ * Usage: pnpm import:queue-times <file...> [--dry-run] [--report <report.json>]
+ */
+async function importQueueTimes(): Promise<void> {
+  const logger = new Logger('ImportQueueTimes');
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      'dry-run': { type: 'boolean', default: false },
+      report: { type: 'string' },
+    },
+  });
+
+  if (positionals.length === 0) {
+    throw new Error('At least one CSV or NDJSON file is required');
+  }
+
+  const app = await createCliContext();
+
+  try {
+    const importService = app.get(QueueTimeImportService);
+    const reports: QueueTimeImportReport[] = [];
+
+    for (const file of positionals) {
+      reports.push(
+        await importService.importFile(file, { dryRun: values['dry-run'] }),
+      );
+    }
+
+    const totals = reports.reduce(
+      (sum, report) => ({
+        totalRows: sum.totalRows + report.totalRows,
+        imported: sum.imported + report.imported,
+        duplicates: sum.duplicates + report.duplicates,
+        unknownRides: sum.unknownRides + report.unknownRides,
+        invalidRows: sum.invalidRows + report.invalidRows,
+      }),
+      {
+        totalRows: 0,
+        imported: 0,
+        duplicates: 0,
+        unknownRides: 0,
+        invalidRows: 0,
+      },
+    );
+
+    logger.log(
+      `${values['dry-run'] ? '[dry run] ' : ''}Import finished: ${totals.imported} imported, ${totals.duplicates} duplicates, ${totals.unknownRides} unknown rides, ${totals.invalidRows} invalid of ${totals.totalRows} rows in ${reports.length} files`,
+    );
+
+    for (const report of reports.filter((r) => r.unknownRideKeys.length > 0)) {
+      logger.warn(
+        `Unknown rides (park/ride queueTimesId) in ${report.file}: ${report.unknownRideKeys.join(', ')}`,
+      );
+    }
+
+    if (values.report) {
+      await writeFile(
+        values.report,
+        JSON.stringify(
+          { dryRun: values['dry-run'], totals, files: reports },
+          null,
+          2,
+        ),
+      );
+      logger.log(`Report written to ${values.report}`);
+    }
+  } finally {
+    await app.close();
+  }
+}
+
+runCli('ImportQueueTimes', importQueueTimes);
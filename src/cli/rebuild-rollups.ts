@@ -0,0 +1,55 @@
+import { Logger } from '@nestjs/common';
+import { parseArgs } from 'util';
+import { createCliContext, runCli } from './cli-context';
+import { QueueTimeRollupService } from '../modules/rides/queue-time-rollup.service.js';
+
+/**
+ * Recompute the hourly and daily queue time rollups from the raw samples.
+ *
+ * Usage: pnpm rebuild:rollups [--from <date>] [--to <date>] [--park <id>]
+ */
+async function rebuildRollups(): Promise<void> {
+  const logger = new Logger('RebuildRollups');
+  const { values } = parseArgs({
+    options: {
+      from: { type: 'string' },
+      to: { type: 'string' },
+      park: { type: 'string' },
+    },
+  });
+
+  const from = values.from ? new Date(values.from) : undefined;
+  const to = values.to ? new Date(values.to) : undefined;
+  if (
+    (from && isNaN(from.getTime())) ||
+    (to && isNaN(to.getTime())) ||
+    (from && to && from >= to)
+  ) {
+    throw new Error(
+      '--from and --to must be valid dates with --from before --to',
+    );
+  }
+
+  const app = await createCliContext();
+
+  try {
+    const report = await app.get(QueueTimeRollupService).rebuild({
+      from,
+      to,
+      parkId: values.park ? parseInt(values.park, 10) : undefined,
+    });
+
+    if (!report.from || !report.to) {
+      logger.log(`No queue times found for ${report.rides} rides`);
+      return;
+    }
+
+    logger.log(
+      `Rebuilt ${report.hourlyRows} hourly and ${report.dailyRows} daily rollups of ${report.rides} rides from ${report.from.toISOString()} to ${report.to.toISOString()}`,
+    );
+  } finally {
+    await app.close();
+  }
+}
+
+runCli('RebuildRollups', rebuildRollups);
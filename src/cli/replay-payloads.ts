@@ -0,0 +1,132 @@
+import { Logger } from '@nestjs/common';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { parseArgs } from 'util';
+import { createCliContext, runCli } from './cli-context';
+import { loadEnv } from '../data-source';
+import { Park } from '../modules/parks/park.entity.js';
+import { QueueTimesParserService } from '../modules/queue-times-parser/queue-times-parser.service.js';
+import { PayloadArchiveService } from '../modules/queue-times-parser/payload-archive.service.js';
+import { ArchivedQueueDataProvider } from '../modules/queue-times-parser/archived-queue-data.provider.js';
+import { IngestionTrigger } from '../modules/queue-times-parser/ingestion-run.entity.js';
+import {
+  UpstreamParkGroup,
+  UpstreamQueueTimes,
+} from '../modules/queue-times-parser/queue-data-provider.interface.js';
+
+/**
+ * Replay archived upstream payloads through the ingestion pipeline into a scratch database.
+ *
+ * Usage: pnpm replay:payloads --database <scratch-db> [--from <date>] [--to <date>] [--park <queueTimesId>]
+ */
+async function replayPayloads(): Promise<void> {
+  const logger = new Logger('ReplayPayloads');
+  const { values } = parseArgs({
+    options: {
+      database: { type: 'string' },
+      from: { type: 'string' },
+      to: { type: 'string' },
+      park: { type: 'string' },
+    },
+  });
+
+  if (!values.database) {
+    throw new Error('--database <scratch-db> is required');
+  }
+  await loadEnv();
+  if (values.database === (process.env.DB_NAME || 'parkfan')) {
+    throw new Error('Refusing to replay into the live database');
+  }
+
+  const from = values.from ? new Date(values.from) : undefined;
+  const to = values.to ? new Date(values.to) : undefined;
+  const parkFilter = values.park ? Number(values.park) : undefined;
+
+  const app = await createCliContext({
+    DB_NAME: values.database,
+    QUEUE_DATA_PROVIDER: 'archive',
+    PAYLOAD_ARCHIVE_ENABLED: 'false',
+    // Keep replayed live data out of the production cache
+    REDIS_KEY_PREFIX: 'parkfan:replay:',
+  });
+
+  try {
+    const archive = app.get(PayloadArchiveService);
+    const provider = app.get(ArchivedQueueDataProvider);
+    const parser = app.get(QueueTimesParserService);
+    const parkRepository = app.get<Repository<Park>>(getRepositoryToken(Park));
+
+    const payloads = await archive.list(from, to);
+    const queuePayloads = payloads.filter(
+      (payload) =>
+        payload.kind === 'queue_times' &&
+        (parkFilter === undefined || payload.parkQueueTimesId === parkFilter),
+    );
+
+    // Parks must exist before their queue times - use the newest parks list
+    // within the range, or the newest archived one if the range has none
+    const parksPayload =
+      payloads.filter((payload) => payload.kind === 'parks').pop() ??
+      (await archive.list())
+        .filter((payload) => payload.kind === 'parks')
+        .pop();
+    if (!parksPayload) {
+      throw new Error('No archived parks payload found');
+    }
+
+    provider.loadParks(await archive.read<UpstreamParkGroup[]>(parksPayload));
+    await parser.fetchAndStoreParks();
+
+    for (const payload of queuePayloads) {
+      provider.enqueueQueueTimes(
+        payload.parkQueueTimesId,
+        await archive.read<UpstreamQueueTimes>(payload),
+        payload.fetchedAt,
+      );
+    }
+
+    logger.log(
+      `Replaying ${queuePayloads.length} queue time payloads into database '${values.database}'`,
+    );
+
+    let newEntries = 0;
+    let skippedEntries = 0;
+    let failedPayloads = 0;
+
+    // Every round replays the next payload of each park with payloads left
+    while (provider.getPendingParkQueueTimesIds().length > 0) {
+      const pendingIds = provider.getPendingParkQueueTimesIds();
+      const parks = await parkRepository.find({
+        where: { queueTimesId: In(pendingIds) },
+        select: ['id', 'queueTimesId'],
+      });
+
+      const knownIds = new Set(parks.map((park) => park.queueTimesId));
+      for (const queueTimesId of pendingIds.filter((id) => !knownIds.has(id))) {
+        logger.warn(
+          `Park ${queueTimesId} is missing from the parks payload, skipping its payloads`,
+        );
+        provider.discardQueueTimes(queueTimesId);
+      }
+      if (parks.length === 0) break;
+
+      const outcomes = await parser.fetchAndStoreQueueTimes(
+        IngestionTrigger.REPLAY,
+        parks.map((park) => park.id),
+      );
+      for (const outcome of outcomes) {
+        newEntries += outcome.newEntries;
+        skippedEntries += outcome.skippedEntries;
+        if (!outcome.success) failedPayloads++;
+      }
+    }
+
+    logger.log(
+      `Replay completed: ${newEntries} new entries, ${skippedEntries} skipped, ${failedPayloads} failed payloads`,
+    );
+  } finally {
+    await app.close();
+  }
+}
+
+runCli('ReplayPayloads', replayPayloads);
@@ -0,0 +1,32 @@
+import { ConfigModule } from '@nestjs/config';
+import { join } from 'path';
+import { DataSource, DataSourceOptions } from 'typeorm';
+
+/**
+ * Load .env into the environment like AppModule does, variables that are already set
+ * take precedence
+ */
+export async function loadEnv(): Promise<void> {
+  await ConfigModule.forRoot({ envFilePath: '.env' });
+}
+
+/**
+ * Connection of the migration commands and the startup migration check.
+ * Reads the same environment variables as AppModule when called, so overrides of CLI
+ * commands apply; paths point at the build output.
+ */
+export function createDataSourceOptions(): DataSourceOptions {
+  return {
+    type: 'postgres',
+    host: process.env.DB_HOST || 'localhost',
+    port: parseInt(process.env.DB_PORT || '5432'),
+    username: process.env.DB_USER || 'postgres',
+    password: process.env.DB_PASS || 'postgres',
+    database: process.env.DB_NAME || 'parkfan',
+    entities: [join(__dirname, '**', '*.entity.js')],
+    migrations: [join(__dirname, 'migrations', '*.js')],
+    synchronize: false,
+  };
+}
+
+export default loadEnv().then(() => new DataSource(createDataSourceOptions()));
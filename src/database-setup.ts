@@ -0,0 +1,113 @@
+import { Logger } from '@nestjs/common';
+import { Client } from 'pg';
+import { DataSource, MigrationExecutor } from 'typeorm';
+import { createDataSourceOptions, loadEnv } from './data-source';
+
+export async function createDatabaseIfNotExists() {
+  const logger = new Logger('DatabaseSetup');
+
+  // Load environment variables manually
+  await loadEnv();
+  const dbHost = process.env.DB_HOST || 'localhost';
+  const dbPort = parseInt(process.env.DB_PORT || '5432');
+  const dbUser = process.env.DB_USER || 'postgres';
+  const dbPass = process.env.DB_PASS || 'postgres';
+  const dbName = process.env.DB_NAME || 'parkfan';
+
+  const client = new Client({
+    host: dbHost,
+    port: dbPort,
+    user: dbUser,
+    password: dbPass,
+    database: 'postgres', // Connect to default postgres database first
+  });
+
+  try {
+    await client.connect();
+    logger.log('Connected to PostgreSQL server');
+
+    // Check if database exists
+    const result = await client.query(
+      'SELECT 1 FROM pg_database WHERE datname = $1',
+      [dbName],
+    );
+
+    if (result.rows.length === 0) {
+      // Database doesn't exist, create it
+      await client.query(`CREATE DATABASE "${dbName}"`);
+      logger.log(`Database '${dbName}' created successfully`);
+    } else {
+      logger.log(`Database '${dbName}' already exists`);
+    }
+  } catch (error) {
+    logger.error(`Failed to create database: ${error.message}`);
+    throw error;
+  } finally {
+    await client.end();
+  }
+}
+
+/**
+ * Refuse to start in production while migrations are pending - they are applied with
+ * pnpm migration:run. Other environments run pending migrations on startup.
+ */
+export async function assertNoPendingMigrations() {
+  await loadEnv();
+  if (process.env.NODE_ENV !== 'production') {
+    return;
+  }
+
+  const logger = new Logger('DatabaseSetup');
+  const dataSource = new DataSource(createDataSourceOptions());
+
+  try {
+    await dataSource.initialize();
+    const pending = await new MigrationExecutor(
+      dataSource,
+    ).getPendingMigrations();
+
+    if (pending.length > 0) {
+      throw new Error(
+        `${pending.length} pending migrations (${pending.map((migration) => migration.name).join(', ')}), run pnpm migration:run first`,
+      );
+    }
+  } catch (error) {
+    logger.error(
+      `Database schema check failed: ${error instanceof Error ? error.message : error}`,
+    );
+    throw error;
+  } finally {
+    if (dataSource.isInitialized) {
+      await dataSource.destroy();
+    }
+  }
+}
+
+/**
+ * Apply pending migrations, in every environment - for databases that only a CLI
+ * command works on, such as the scratch database of a replay
+ */
+export async function runPendingMigrations() {
+  await loadEnv();
+  const logger = new Logger('DatabaseSetup');
+  const dataSource = new DataSource(createDataSourceOptions());
+
+  try {
+    await dataSource.initialize();
+    const applied = await dataSource.runMigrations();
+    if (applied.length > 0) {
+      logger.log(
+        `Applied ${applied.length} migrations to database '${dataSource.driver.database}'`,
+      );
+    }
+  } catch (error) {
+    logger.error(
+      `Database migration failed: ${error instanceof Error ? error.message : error}`,
+    );
+    throw error;
+  } finally {
+    if (dataSource.isInitialized) {
+      await dataSource.destroy();
+    }
+  }
+}
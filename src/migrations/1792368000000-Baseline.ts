@@ -0,0 +1,131 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Schema of the entities as previously created by TypeORM synchronization. Databases
+ * created by synchronization already have it, the migration is only recorded as applied
+ * there and the following migrations bring them up to date.
+ */
+export class Baseline1792368000000 implements MigrationInterface {
+  name = 'Baseline1792368000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    if (await queryRunner.hasTable('park')) {
+      return;
+    }
+
+    await queryRunner.query(
+      `CREATE TABLE "park_group" ("id" SERIAL NOT NULL, "queueTimesId" integer NOT NULL, "name" character varying NOT NULL, CONSTRAINT "UQ_d99bff4e35d05424eee71183efb" UNIQUE ("queueTimesId"), CONSTRAINT "PK_3a59c81de662cfe9a58ba4b2875" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "queue_time" ("id" SERIAL NOT NULL, "waitTime" integer NOT NULL, "isOpen" boolean NOT NULL DEFAULT true, "lastUpdated" TIMESTAMP WITH TIME ZONE, "recordedAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), "rideId" integer, CONSTRAINT "PK_8b3ff78d23a7761dc43c74cc951" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_5cff05c68c727b28202ddea5d7" ON "queue_time" ("rideId", "lastUpdated", "recordedAt") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_0de8aba986d8347a9f1e2edaec" ON "queue_time" ("rideId", "lastUpdated", "waitTime") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_79401b4cad8cb7f6642318d5db" ON "queue_time" ("rideId", "lastUpdated") `,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "ride" ("id" SERIAL NOT NULL, "queueTimesId" integer NOT NULL, "name" character varying NOT NULL, "isActive" boolean NOT NULL DEFAULT true, "parkId" integer, "themeAreaId" integer, CONSTRAINT "UQ_ba2e94cf5ddb2d2f7059d407faf" UNIQUE ("queueTimesId", "parkId"), CONSTRAINT "PK_f6bc30c4dd875370bafcb54af1b" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_ride_is_active" ON "ride" ("isActive") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_ride_theme_area" ON "ride" ("themeAreaId") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_ride_park" ON "ride" ("parkId") `,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "theme_area" ("id" SERIAL NOT NULL, "queueTimesId" integer NOT NULL, "name" character varying NOT NULL, "parkId" integer, CONSTRAINT "UQ_adf84f8873f2eda2e96a40b5ee1" UNIQUE ("queueTimesId", "parkId"), CONSTRAINT "PK_e8a48f5b8477baa2a209b0a6dd8" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_theme_area_park" ON "theme_area" ("parkId") `,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "park" ("id" SERIAL NOT NULL, "queueTimesId" integer NOT NULL, "name" character varying NOT NULL, "country" character varying NOT NULL, "continent" character varying NOT NULL, "latitude" numeric(10,6) NOT NULL, "longitude" numeric(10,6) NOT NULL, "timezone" character varying NOT NULL, "parkGroupId" integer, CONSTRAINT "UQ_84d6b479a5003b5c3aa75d3924a" UNIQUE ("queueTimesId"), CONSTRAINT "PK_653802406812552d8de5f9a4047" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_park_park_group" ON "park" ("parkGroupId") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_park_continent_name" ON "park" ("continent", "name") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_park_country_name" ON "park" ("country", "name") `,
+    );
+    await queryRunner.query(`CREATE INDEX "IDX_park_name" ON "park" ("name") `);
+    await queryRunner.query(
+      `CREATE INDEX "IDX_park_continent_country" ON "park" ("continent", "country") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_park_continent" ON "park" ("continent") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_park_country" ON "park" ("country") `,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."weather_data_datatype_enum" AS ENUM('current', 'forecast', 'historical')`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."weather_data_status_enum" AS ENUM('sunny', 'partly_cloudy', 'cloudy', 'overcast', 'light_rain', 'rain', 'heavy_rain', 'thunderstorm', 'snow', 'fog', 'drizzle')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "weather_data" ("id" character varying(200) NOT NULL, "park_id" integer NOT NULL, "weatherDate" date NOT NULL, "dataType" "public"."weather_data_datatype_enum" NOT NULL DEFAULT 'current', "temperatureMin" integer NOT NULL, "temperatureMax" integer NOT NULL, "precipitationProbability" integer NOT NULL, "weatherCode" integer NOT NULL, "status" "public"."weather_data_status_enum" NOT NULL, "weatherScore" integer NOT NULL, "forecastCreatedDate" date, "daysAhead" integer, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), "validUntil" TIMESTAMP NOT NULL DEFAULT now(), "isFetchFailed" boolean NOT NULL DEFAULT false, CONSTRAINT "PK_6ee17d274a88f8036d2aa8ea9d1" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_bb1418801ce24fd0d65b9e5001" ON "weather_data" ("park_id", "weatherDate", "dataType") `,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "queue_time" ADD CONSTRAINT "FK_4cb37e95570207f7ac83fcbc811" FOREIGN KEY ("rideId") REFERENCES "ride"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "ride" ADD CONSTRAINT "FK_976c257bce4530dc132f4dacd95" FOREIGN KEY ("parkId") REFERENCES "park"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "ride" ADD CONSTRAINT "FK_76bde2c76d56104a880b4a9f088" FOREIGN KEY ("themeAreaId") REFERENCES "theme_area"("id") ON DELETE SET NULL ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "theme_area" ADD CONSTRAINT "FK_75e73f007ebf72c0defb57bc708" FOREIGN KEY ("parkId") REFERENCES "park"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "park" ADD CONSTRAINT "FK_e6b62f68b4304f94f5815eb8716" FOREIGN KEY ("parkGroupId") REFERENCES "park_group"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "weather_data" ADD CONSTRAINT "FK_ca86d1098ba9d1f2214d6e9637b" FOREIGN KEY ("park_id") REFERENCES "park"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "weather_data" DROP CONSTRAINT "FK_ca86d1098ba9d1f2214d6e9637b"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "park" DROP CONSTRAINT "FK_e6b62f68b4304f94f5815eb8716"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "theme_area" DROP CONSTRAINT "FK_75e73f007ebf72c0defb57bc708"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "ride" DROP CONSTRAINT "FK_76bde2c76d56104a880b4a9f088"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "ride" DROP CONSTRAINT "FK_976c257bce4530dc132f4dacd95"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "queue_time" DROP CONSTRAINT "FK_4cb37e95570207f7ac83fcbc811"`,
+    );
+    await queryRunner.query(`DROP TABLE "weather_data"`);
+    await queryRunner.query(`DROP TYPE "public"."weather_data_status_enum"`);
+    await queryRunner.query(`DROP TYPE "public"."weather_data_datatype_enum"`);
+    await queryRunner.query(`DROP TABLE "park"`);
+    await queryRunner.query(`DROP TABLE "theme_area"`);
+    await queryRunner.query(`DROP TABLE "ride"`);
+    await queryRunner.query(`DROP TABLE "queue_time"`);
+    await queryRunner.query(`DROP TABLE "park_group"`);
+  }
+}
@@ -0,0 +1,209 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Ride lifecycle, wait time anomaly flags, ingestion runs, adaptive polling, quarantined
+ * payloads, downtimes, reliability, operating days and queue time rollups
+ */
+export class IngestionAndRideHistory1792396800000
+  implements MigrationInterface
+{
+  name = 'IngestionAndRideHistory1792396800000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "ride" ADD "lastSeenAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."queue_time_anomaly_enum" AS ENUM('implausible', 'outlier', 'stale')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "queue_time" ADD "suspect" boolean NOT NULL DEFAULT false`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "queue_time" ADD "anomaly" "public"."queue_time_anomaly_enum"`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "queue_time_hourly" ("rideId" integer NOT NULL, "sampleCount" integer NOT NULL, "openSampleCount" integer NOT NULL, "waitSampleCount" integer NOT NULL, "nonZeroWaitCount" integer NOT NULL, "minWait" integer, "avgWait" double precision, "maxWait" integer, "p50Wait" double precision, "p90Wait" double precision, "p95Wait" double precision, "openMinutes" integer NOT NULL, "refreshedAt" TIMESTAMP WITH TIME ZONE NOT NULL, "hour" TIMESTAMP WITH TIME ZONE NOT NULL, CONSTRAINT "PK_c1d88e7fbf3cbe663350fdadee6" PRIMARY KEY ("rideId", "hour"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_queue_time_hourly_refreshed_at" ON "queue_time_hourly" ("refreshedAt") `,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "queue_time_daily" ("rideId" integer NOT NULL, "sampleCount" integer NOT NULL, "openSampleCount" integer NOT NULL, "waitSampleCount" integer NOT NULL, "nonZeroWaitCount" integer NOT NULL, "minWait" integer, "avgWait" double precision, "maxWait" integer, "p50Wait" double precision, "p90Wait" double precision, "p95Wait" double precision, "openMinutes" integer NOT NULL, "refreshedAt" TIMESTAMP WITH TIME ZONE NOT NULL, "date" date NOT NULL, CONSTRAINT "PK_7dd7e29bbba7ecc5b6b0b20a68d" PRIMARY KEY ("rideId", "date"))`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "queue_time_compaction" ("parkId" integer NOT NULL, "compactedBefore" TIMESTAMP WITH TIME ZONE NOT NULL, "deletedBefore" TIMESTAMP WITH TIME ZONE, "updatedAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), CONSTRAINT "PK_6c1b2dd45d6515c01b49d955f19" PRIMARY KEY ("parkId"))`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "ride_reliability" ("rideId" integer NOT NULL, "windowDays" integer NOT NULL, "uptimePercentage" double precision NOT NULL, "operatingMinutes" integer NOT NULL, "sampleCount" integer NOT NULL, "downtimes" integer NOT NULL, "meanTimeBetweenBreakdownsMinutes" integer, "averageDowntimeMinutes" integer, "computedAt" TIMESTAMP WITH TIME ZONE NOT NULL, CONSTRAINT "PK_4a4b9a80011747ce3402fe3e5e2" PRIMARY KEY ("rideId", "windowDays"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_ride_reliability_window_uptime" ON "ride_reliability" ("windowDays", "uptimePercentage") `,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "ride_downtime" ("id" SERIAL NOT NULL, "rideId" integer NOT NULL, "parkId" integer NOT NULL, "date" date NOT NULL, "startedAt" TIMESTAMP WITH TIME ZONE NOT NULL, "endedAt" TIMESTAMP WITH TIME ZONE NOT NULL, "durationMinutes" integer NOT NULL, CONSTRAINT "UQ_ride_downtime_ride_started_at" UNIQUE ("rideId", "startedAt"), CONSTRAINT "PK_d617532567f9c2b41802d5b45f4" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_ride_downtime_park_date" ON "ride_downtime" ("parkId", "date") `,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."ride_event_type_enum" AS ENUM('ride-added', 'ride-retired', 'ride-reactivated')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "ride_event" ("id" SERIAL NOT NULL, "rideId" integer NOT NULL, "parkId" integer NOT NULL, "type" "public"."ride_event_type_enum" NOT NULL, "occurredAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), CONSTRAINT "PK_adaec4c588f6845874e39e07710" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_ride_event_park_occurred_at" ON "ride_event" ("parkId", "occurredAt") `,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "park_operating_day" ("parkId" integer NOT NULL, "date" date NOT NULL, "opensAt" TIMESTAMP WITH TIME ZONE, "closesAt" TIMESTAMP WITH TIME ZONE, "peakOpenPercentage" double precision NOT NULL, "openThreshold" integer NOT NULL, "updatedAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), CONSTRAINT "PK_e1a1e342baa138ce9578e651779" PRIMARY KEY ("parkId", "date"))`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."park_poll_schedule_mode_enum" AS ENUM('open', 'expected-open', 'closed', 'seasonal-closed', 'unknown')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "park_poll_schedule" ("parkId" integer NOT NULL, "mode" "public"."park_poll_schedule_mode_enum" NOT NULL DEFAULT 'unknown', "nextPollAt" TIMESTAMP WITH TIME ZONE NOT NULL, "lastPolledAt" TIMESTAMP WITH TIME ZONE, "intervalMinutes" integer NOT NULL, "unchangedPolls" integer NOT NULL DEFAULT '0', "typicalOpenMinute" integer, "typicalCloseMinute" integer, "lastOpenAt" TIMESTAMP WITH TIME ZONE, "hasHistory" boolean NOT NULL DEFAULT false, "updatedAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), CONSTRAINT "PK_992b410b810c16b4cd6a7abf95c" PRIMARY KEY ("parkId"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_park_poll_schedule_next_poll_at" ON "park_poll_schedule" ("nextPollAt") `,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."ingestion_run_trigger_enum" AS ENUM('initial', 'scheduled', 'manual', 'replay')`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."ingestion_run_status_enum" AS ENUM('running', 'completed', 'failed')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "ingestion_run" ("id" SERIAL NOT NULL, "trigger" "public"."ingestion_run_trigger_enum" NOT NULL, "status" "public"."ingestion_run_status_enum" NOT NULL DEFAULT 'running', "provider" character varying(50) NOT NULL, "startedAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), "finishedAt" TIMESTAMP WITH TIME ZONE, "totalParks" integer NOT NULL DEFAULT '0', "processedParks" integer NOT NULL DEFAULT '0', "failedParks" integer NOT NULL DEFAULT '0', "malformedParks" integer NOT NULL DEFAULT '0', "newEntries" integer NOT NULL DEFAULT '0', "skippedEntries" integer NOT NULL DEFAULT '0', "errorMessage" text, CONSTRAINT "PK_6c333b396068ef1783a22896b23" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_ingestion_run_started_at" ON "ingestion_run" ("startedAt") `,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "ingestion_park_result" ("id" SERIAL NOT NULL, "parkId" integer NOT NULL, "success" boolean NOT NULL DEFAULT true, "httpStatus" integer, "durationMs" integer NOT NULL, "newEntries" integer NOT NULL DEFAULT '0', "skippedEntries" integer NOT NULL DEFAULT '0', "openRides" integer NOT NULL DEFAULT '0', "malformed" boolean NOT NULL DEFAULT false, "errorMessage" text, "createdAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), "runId" integer, CONSTRAINT "PK_e4f2c51045276e69a0146795f8d" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_ingestion_park_result_park_success" ON "ingestion_park_result" ("parkId", "success") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_ingestion_park_result_run" ON "ingestion_park_result" ("runId") `,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."quarantined_payload_kind_enum" AS ENUM('parks', 'queue_times')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "quarantined_payload" ("id" SERIAL NOT NULL, "kind" "public"."quarantined_payload_kind_enum" NOT NULL, "parkId" integer, "provider" character varying(50) NOT NULL, "payload" jsonb, "validationErrors" jsonb NOT NULL, "receivedAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), CONSTRAINT "PK_984d2d6a9eb99ff731a246eca97" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_quarantined_payload_received_at" ON "quarantined_payload" ("receivedAt") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_quarantined_payload_park_received_at" ON "quarantined_payload" ("parkId", "receivedAt") `,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "queue_time_hourly" ADD CONSTRAINT "FK_189c747169b9dcb86af43c17b1a" FOREIGN KEY ("rideId") REFERENCES "ride"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "queue_time_daily" ADD CONSTRAINT "FK_4f87e36754f97d47f2c92830533" FOREIGN KEY ("rideId") REFERENCES "ride"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "queue_time_compaction" ADD CONSTRAINT "FK_6c1b2dd45d6515c01b49d955f19" FOREIGN KEY ("parkId") REFERENCES "park"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "ride_reliability" ADD CONSTRAINT "FK_45f7b2ca4e1bf6f50b40ace0580" FOREIGN KEY ("rideId") REFERENCES "ride"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "ride_downtime" ADD CONSTRAINT "FK_ba196598d3ba3901c1f1fa84d9d" FOREIGN KEY ("rideId") REFERENCES "ride"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "ride_downtime" ADD CONSTRAINT "FK_265a79445ee055968c0876c1850" FOREIGN KEY ("parkId") REFERENCES "park"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "ride_event" ADD CONSTRAINT "FK_dd346378f8a0c2b29167e72d119" FOREIGN KEY ("rideId") REFERENCES "ride"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "ride_event" ADD CONSTRAINT "FK_b5e4f964b7fea856c036479fa47" FOREIGN KEY ("parkId") REFERENCES "park"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "park_operating_day" ADD CONSTRAINT "FK_01938ec06ac7cd54e1aefc62da7" FOREIGN KEY ("parkId") REFERENCES "park"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "park_poll_schedule" ADD CONSTRAINT "FK_992b410b810c16b4cd6a7abf95c" FOREIGN KEY ("parkId") REFERENCES "park"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "ingestion_park_result" ADD CONSTRAINT "FK_e52bcf53675fa7be96e8c212b98" FOREIGN KEY ("runId") REFERENCES "ingestion_run"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "ingestion_park_result" ADD CONSTRAINT "FK_6ed6401342966df780e8c8e2927" FOREIGN KEY ("parkId") REFERENCES "park"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "quarantined_payload" ADD CONSTRAINT "FK_cdf5096a289874adee6f4323976" FOREIGN KEY ("parkId") REFERENCES "park"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "quarantined_payload" DROP CONSTRAINT "FK_cdf5096a289874adee6f4323976"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "ingestion_park_result" DROP CONSTRAINT "FK_6ed6401342966df780e8c8e2927"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "ingestion_park_result" DROP CONSTRAINT "FK_e52bcf53675fa7be96e8c212b98"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "park_poll_schedule" DROP CONSTRAINT "FK_992b410b810c16b4cd6a7abf95c"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "park_operating_day" DROP CONSTRAINT "FK_01938ec06ac7cd54e1aefc62da7"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "ride_event" DROP CONSTRAINT "FK_b5e4f964b7fea856c036479fa47"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "ride_event" DROP CONSTRAINT "FK_dd346378f8a0c2b29167e72d119"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "ride_downtime" DROP CONSTRAINT "FK_265a79445ee055968c0876c1850"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "ride_downtime" DROP CONSTRAINT "FK_ba196598d3ba3901c1f1fa84d9d"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "ride_reliability" DROP CONSTRAINT "FK_45f7b2ca4e1bf6f50b40ace0580"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "queue_time_compaction" DROP CONSTRAINT "FK_6c1b2dd45d6515c01b49d955f19"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "queue_time_daily" DROP CONSTRAINT "FK_4f87e36754f97d47f2c92830533"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "queue_time_hourly" DROP CONSTRAINT "FK_189c747169b9dcb86af43c17b1a"`,
+    );
+    await queryRunner.query(`DROP TABLE "quarantined_payload"`);
+    await queryRunner.query(
+      `DROP TYPE "public"."quarantined_payload_kind_enum"`,
+    );
+    await queryRunner.query(`DROP TABLE "ingestion_park_result"`);
+    await queryRunner.query(`DROP TABLE "ingestion_run"`);
+    await queryRunner.query(`DROP TYPE "public"."ingestion_run_status_enum"`);
+    await queryRunner.query(`DROP TYPE "public"."ingestion_run_trigger_enum"`);
+    await queryRunner.query(`DROP TABLE "park_poll_schedule"`);
+    await queryRunner.query(
+      `DROP TYPE "public"."park_poll_schedule_mode_enum"`,
+    );
+    await queryRunner.query(`DROP TABLE "park_operating_day"`);
+    await queryRunner.query(`DROP TABLE "ride_event"`);
+    await queryRunner.query(`DROP TYPE "public"."ride_event_type_enum"`);
+    await queryRunner.query(`DROP TABLE "ride_downtime"`);
+    await queryRunner.query(`DROP TABLE "ride_reliability"`);
+    await queryRunner.query(`DROP TABLE "queue_time_compaction"`);
+    await queryRunner.query(`DROP TABLE "queue_time_daily"`);
+    await queryRunner.query(`DROP TABLE "queue_time_hourly"`);
+    await queryRunner.query(`ALTER TABLE "queue_time" DROP COLUMN "anomaly"`);
+    await queryRunner.query(`ALTER TABLE "queue_time" DROP COLUMN "suspect"`);
+    await queryRunner.query(`DROP TYPE "public"."queue_time_anomaly_enum"`);
+    await queryRunner.query(`ALTER TABLE "ride" DROP COLUMN "lastSeenAt"`);
+  }
+}
@@ -0,0 +1,105 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Range-partition queue_time by month of lastUpdated, with a default partition and one
+ * partition per month of existing samples up to the current one. Later months are
+ * created by QueueTimePartitionService. The partition key has to be part of every unique
+ * constraint, so the primary key includes lastUpdated.
+ * Samples without an upstream timestamp cannot be partitioned and were never part of any
+ * statistic, they are dropped, as are duplicates of a ride and upstream timestamp.
+ */
+export class PartitionQueueTime1792425600000 implements MigrationInterface {
+  name = 'PartitionQueueTime1792425600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "queue_time" RENAME TO "queue_time_unpartitioned"`,
+    );
+    // Index names are unique per schema, the partitioned table gets its own
+    await queryRunner.query(`DROP INDEX "IDX_5cff05c68c727b28202ddea5d7"`);
+    await queryRunner.query(`DROP INDEX "IDX_0de8aba986d8347a9f1e2edaec"`);
+    await queryRunner.query(`DROP INDEX "IDX_79401b4cad8cb7f6642318d5db"`);
+
+    await queryRunner.query(
+      `CREATE TABLE "queue_time" ("id" integer NOT NULL DEFAULT nextval('queue_time_id_seq'), "waitTime" integer NOT NULL, "isOpen" boolean NOT NULL DEFAULT true, "lastUpdated" TIMESTAMP WITH TIME ZONE NOT NULL, "suspect" boolean NOT NULL DEFAULT false, "anomaly" "public"."queue_time_anomaly_enum", "recordedAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), "rideId" integer, CONSTRAINT "UQ_queue_time_ride_last_updated" UNIQUE ("rideId", "lastUpdated"), CONSTRAINT "PK_queue_time" PRIMARY KEY ("id", "lastUpdated"), CONSTRAINT "FK_queue_time_ride" FOREIGN KEY ("rideId") REFERENCES "ride"("id") ON DELETE CASCADE ON UPDATE NO ACTION) PARTITION BY RANGE ("lastUpdated")`,
+    );
+    await queryRunner.query(
+      `ALTER SEQUENCE "queue_time_id_seq" OWNED BY "queue_time"."id"`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_queue_time_ride_last_updated_recorded_at" ON "queue_time" ("rideId", "lastUpdated", "recordedAt") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_queue_time_recorded_at" ON "queue_time" ("recordedAt") `,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "queue_time_default" PARTITION OF "queue_time" DEFAULT`,
+    );
+
+    await queryRunner.query(`
+      DO $$
+      DECLARE month timestamp;
+      BEGIN
+        FOR month IN
+          SELECT GENERATE_SERIES(
+            DATE_TRUNC('month', MIN("lastUpdated") AT TIME ZONE 'UTC'),
+            DATE_TRUNC('month', NOW() AT TIME ZONE 'UTC'),
+            INTERVAL '1 month'
+          )
+          FROM queue_time_unpartitioned
+        LOOP
+          EXECUTE FORMAT(
+            'CREATE TABLE %I PARTITION OF queue_time FOR VALUES FROM (%L) TO (%L)',
+            'queue_time_' || TO_CHAR(month, 'YYYY_MM'),
+            month AT TIME ZONE 'UTC',
+            (month + INTERVAL '1 month') AT TIME ZONE 'UTC'
+          );
+        END LOOP;
+      END $$
+    `);
+    await queryRunner.query(`
+      INSERT INTO queue_time (id, "waitTime", "isOpen", "lastUpdated", suspect, anomaly, "recordedAt", "rideId")
+      SELECT id, "waitTime", "isOpen", "lastUpdated", suspect, anomaly, "recordedAt", "rideId"
+      FROM queue_time_unpartitioned
+      WHERE "lastUpdated" IS NOT NULL
+      ON CONFLICT DO NOTHING
+    `);
+    await queryRunner.query(`DROP TABLE "queue_time_unpartitioned"`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "queue_time" RENAME TO "queue_time_partitioned"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "IDX_queue_time_ride_last_updated_recorded_at"`,
+    );
+    await queryRunner.query(`DROP INDEX "IDX_queue_time_recorded_at"`);
+
+    await queryRunner.query(
+      `CREATE TABLE "queue_time" ("id" integer NOT NULL DEFAULT nextval('queue_time_id_seq'), "waitTime" integer NOT NULL, "isOpen" boolean NOT NULL DEFAULT true, "lastUpdated" TIMESTAMP WITH TIME ZONE, "suspect" boolean NOT NULL DEFAULT false, "anomaly" "public"."queue_time_anomaly_enum", "recordedAt" TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), "rideId" integer, CONSTRAINT "PK_8b3ff78d23a7761dc43c74cc951" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `ALTER SEQUENCE "queue_time_id_seq" OWNED BY "queue_time"."id"`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_5cff05c68c727b28202ddea5d7" ON "queue_time" ("rideId", "lastUpdated", "recordedAt") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_0de8aba986d8347a9f1e2edaec" ON "queue_time" ("rideId", "lastUpdated", "waitTime") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_79401b4cad8cb7f6642318d5db" ON "queue_time" ("rideId", "lastUpdated") `,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "queue_time" ADD CONSTRAINT "FK_4cb37e95570207f7ac83fcbc811" FOREIGN KEY ("rideId") REFERENCES "ride"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(`
+      INSERT INTO queue_time (id, "waitTime", "isOpen", "lastUpdated", suspect, anomaly, "recordedAt", "rideId")
+      SELECT id, "waitTime", "isOpen", "lastUpdated", suspect, anomaly, "recordedAt", "rideId"
+      FROM queue_time_partitioned
+    `);
+    // Drops the attached partitions, detached ones kept for archiving stay
+    await queryRunner.query(`DROP TABLE "queue_time_partitioned"`);
+  }
+}
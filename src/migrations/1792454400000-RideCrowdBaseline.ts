@@ -0,0 +1,24 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Precomputed crowd level baselines per ride, filled by RideCrowdBaselineService
+ */
+export class RideCrowdBaseline1792454400000 implements MigrationInterface {
+  name = 'RideCrowdBaseline1792454400000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "ride_crowd_baseline" ("rideId" integer NOT NULL, "p95Wait" double precision, "hourCount" integer NOT NULL, "sampleCount" integer NOT NULL, "firstHour" TIMESTAMP WITH TIME ZONE, "lastHour" TIMESTAMP WITH TIME ZONE, "refreshedAt" TIMESTAMP WITH TIME ZONE NOT NULL, CONSTRAINT "PK_b8e1474499af8f86a53ec7169a3" PRIMARY KEY ("rideId"))`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "ride_crowd_baseline" ADD CONSTRAINT "FK_b8e1474499af8f86a53ec7169a3" FOREIGN KEY ("rideId") REFERENCES "ride"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "ride_crowd_baseline" DROP CONSTRAINT "FK_b8e1474499af8f86a53ec7169a3"`,
+    );
+    await queryRunner.query(`DROP TABLE "ride_crowd_baseline"`);
+  }
+}
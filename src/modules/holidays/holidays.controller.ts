@@ -0,0 +1,16 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { HolidaysService } from './holidays.service.js';
+import { HolidayQueryDto } from './holidays.dto.js';
+
+@Controller('holidays')
+export class HolidaysController {
+  constructor(private readonly holidaysService: HolidaysService) {}
+
+  /**
+   * Get public and school holidays of a country: /holidays?country=germany
+   */
+  @Get()
+  findHolidays(@Query() query: HolidayQueryDto) {
+    return this.holidaysService.findHolidays(query);
+  }
+}
@@ -0,0 +1,42 @@
+import {
+  IsDateString,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+} from 'class-validator';
+
+export class HolidayQueryDto {
+  @IsString()
+  @IsNotEmpty()
+  country: string; // Country name or ISO code
+
+  @IsOptional()
+  @IsString()
+  region?: string; // Region code, e.g. DE-BW - nationwide holidays are always included
+
+  @IsOptional()
+  @IsIn(['public', 'school'])
+  type?: 'public' | 'school';
+
+  @IsOptional()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, {
+    message: 'from must be a date formatted as YYYY-MM-DD',
+  })
+  @IsDateString(
+    { strict: true },
+    { message: 'from must be an existing calendar date' },
+  )
+  from?: string; // Defaults to today
+
+  @IsOptional()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, {
+    message: 'to must be a date formatted as YYYY-MM-DD',
+  })
+  @IsDateString(
+    { strict: true },
+    { message: 'to must be an existing calendar date' },
+  )
+  to?: string; // Defaults to one year after `from`
+}
@@ -0,0 +1,346 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { readdir, readFile } from 'fs/promises';
+import { isAbsolute, join } from 'path';
+import { HolidayQueryDto } from './holidays.dto.js';
+
+export type HolidayType = 'public' | 'school';
+
+export interface Holiday {
+  name: string;
+  type: HolidayType;
+  start: string; // First local date, YYYY-MM-DD
+  end: string; // Last local date, inclusive
+  regions?: string[]; // Region codes, e.g. DE-BW. Absent for nationwide holidays
+}
+
+/**
+ * Inclusive local date range whose holidays are completely listed
+ */
+export interface HolidayCoverage {
+  from: string;
+  to: string;
+}
+
+/**
+ * Content of one <dir>/<code>.json file
+ */
+export interface CountryHolidayCalendar {
+  code: string; // ISO 3166-1 alpha-2 code
+  country: string; // Country name as used by parks
+  regions?: Record<string, string>; // Region code => name
+  coverage: {
+    public: HolidayCoverage; // Nationwide and regional public holidays
+    school?: Record<string, HolidayCoverage>; // Region (or country) code => its school holidays
+  };
+  holidays: Holiday[];
+}
+
+/**
+ * Holidays affecting a park on one local date. A flag is null when it is not set
+ * by any region and the data does not cover the date for every relevant region.
+ */
+export interface HolidayFlags {
+  isPublicHoliday: boolean | null;
+  isSchoolHoliday: boolean | null;
+  holidays: Array<{ name: string; type: HolidayType; region: string }>;
+  uncoveredRegions: string[]; // Relevant regions without complete data for the date
+}
+
+/**
+ * Public and school holiday calendar loaded from local data files:
+ *   <dir>/<code>.json       holidays of one country, see CountryHolidayCalendar
+ *   <dir>/park-regions.json park name => region codes whose holidays are relevant,
+ *                           including neighbouring regions ("DE-BW", "FR", "CH")
+ * A country code stands for its nationwide holidays, a region code for the nationwide
+ * plus the region's own holidays. Unmapped parks use the nationwide holidays of their country.
+ * Dates outside a file's coverage are unknown rather than regular days, and regions of
+ * parks without complete data are logged on load.
+ */
+@Injectable()
+export class HolidaysService implements OnModuleInit {
+  private readonly logger = new Logger(HolidaysService.name);
+  private readonly dataDir: string;
+  private calendars = new Map<string, CountryHolidayCalendar>(); // By upper-case code
+  private parkRegions = new Map<string, string[]>(); // By normalized park name
+
+  constructor(private readonly configService: ConfigService) {
+    const dir = this.configService.get<string>(
+      'HOLIDAYS_DATA_DIR',
+      'data/holidays',
+    );
+    this.dataDir = isAbsolute(dir) ? dir : join(process.cwd(), dir);
+  }
+
+  async onModuleInit(): Promise<void> {
+    await this.load();
+  }
+
+  /**
+   * (Re)load all holiday files. Invalid files are skipped with a warning.
+   */
+  async load(): Promise<void> {
+    const calendars = new Map<string, CountryHolidayCalendar>();
+    const parkRegions = new Map<string, string[]>();
+
+    let files: string[];
+    try {
+      files = (await readdir(this.dataDir)).filter((f) => f.endsWith('.json'));
+    } catch {
+      this.logger.warn(
+        `Holiday data directory ${this.dataDir} not found - holidays are disabled`,
+      );
+      files = [];
+    }
+
+    for (const file of files) {
+      try {
+        const content = JSON.parse(
+          await readFile(join(this.dataDir, file), 'utf8'),
+        ) as unknown;
+
+        if (file === 'park-regions.json') {
+          for (const [park, regions] of Object.entries(
+            content as Record<string, string[]>,
+          )) {
+            parkRegions.set(
+              this.normalizeName(park),
+              regions.map((r) => r.toUpperCase()),
+            );
+          }
+          continue;
+        }
+
+        const calendar = content as CountryHolidayCalendar;
+        if (
+          !calendar.code ||
+          !calendar.country ||
+          !calendar.coverage?.public ||
+          !calendar.holidays
+        ) {
+          throw new Error(
+            'code, country, coverage.public and holidays are required',
+          );
+        }
+        calendars.set(calendar.code.toUpperCase(), calendar);
+      } catch (error) {
+        this.logger.warn(
+          `Skipping invalid holiday file ${file}: ${error instanceof Error ? error.message : error}`,
+        );
+      }
+    }
+
+    this.calendars = calendars;
+    this.parkRegions = parkRegions;
+    this.logger.log(
+      `Loaded holidays of ${calendars.size} countries and regions of ${parkRegions.size} parks`,
+    );
+    this.warnAboutMissingCoverage();
+  }
+
+  /**
+   * Get holidays of a country (name or code) overlapping a date range
+   */
+  findHolidays(query: HolidayQueryDto) {
+    const calendar = this.findCalendar(query.country);
+    if (!calendar) {
+      throw new NotFoundException(
+        `No holiday data for country ${query.country}`,
+      );
+    }
+
+    const from = query.from ?? new Date().toISOString().split('T')[0];
+    const to = query.to ?? this.addDays(from, 365);
+    if (from > to) {
+      throw new BadRequestException('from must not be after to');
+    }
+
+    const region = query.region?.toUpperCase();
+    const holidays = calendar.holidays
+      .filter((h) => h.start <= to && h.end >= from)
+      .filter((h) => !region || !h.regions || h.regions.includes(region))
+      .filter((h) => !query.type || h.type === query.type)
+      .sort((a, b) => a.start.localeCompare(b.start))
+      .map((h) => ({
+        name: h.name,
+        type: h.type,
+        start: h.start,
+        end: h.end,
+        regions: h.regions ?? null,
+      }));
+
+    return {
+      country: calendar.country,
+      code: calendar.code,
+      regions: calendar.regions ?? {},
+      coverage: {
+        public: calendar.coverage.public,
+        school: calendar.coverage.school ?? {},
+      },
+      from,
+      to,
+      holidays,
+    };
+  }
+
+  /**
+   * Region codes whose holidays are relevant for a park
+   */
+  getParkRegions(park: { name: string; country: string }): string[] {
+    const mapped = this.parkRegions.get(this.normalizeName(park.name));
+    if (mapped) {
+      return mapped;
+    }
+    const calendar = this.findCalendar(park.country);
+    return calendar ? [calendar.code.toUpperCase()] : [];
+  }
+
+  /**
+   * Holiday flags of a park for every local date in [from, to]
+   */
+  getParkHolidayFlags(
+    park: { name: string; country: string },
+    from: string,
+    to: string,
+  ): Map<string, HolidayFlags> {
+    // Parks of countries without data have no regions, so nothing is known about them
+    const parkRegions = this.getParkRegions(park);
+    const unknown = parkRegions.length === 0;
+
+    const flags = new Map<string, HolidayFlags>();
+    for (let date = from; date <= to; date = this.addDays(date, 1)) {
+      const publicUncovered = parkRegions.filter(
+        (region) => !this.isCovered(region, 'public', date),
+      );
+      const schoolUncovered = parkRegions.filter(
+        (region) => !this.isCovered(region, 'school', date),
+      );
+      flags.set(date, {
+        isPublicHoliday: unknown || publicUncovered.length > 0 ? null : false,
+        isSchoolHoliday: unknown || schoolUncovered.length > 0 ? null : false,
+        holidays: [],
+        uncoveredRegions: parkRegions.filter(
+          (region) =>
+            publicUncovered.includes(region) ||
+            schoolUncovered.includes(region),
+        ),
+      });
+    }
+
+    const regionsByCountry = new Map<string, string[]>();
+    for (const region of parkRegions) {
+      const code = region.split('-')[0];
+      regionsByCountry.set(code, [
+        ...(regionsByCountry.get(code) ?? []),
+        region,
+      ]);
+    }
+
+    for (const [code, regions] of regionsByCountry) {
+      const calendar = this.calendars.get(code);
+      if (!calendar) continue;
+
+      for (const holiday of calendar.holidays) {
+        if (holiday.end < from || holiday.start > to) continue;
+
+        const region = holiday.regions?.length
+          ? holiday.regions.find((r) => regions.includes(r))
+          : code;
+        if (!region) continue;
+
+        const start = holiday.start > from ? holiday.start : from;
+        const end = holiday.end < to ? holiday.end : to;
+        for (let date = start; date <= end; date = this.addDays(date, 1)) {
+          const dayFlags = flags.get(date);
+          if (!dayFlags) continue;
+
+          if (holiday.type === 'public') dayFlags.isPublicHoliday = true;
+          if (holiday.type === 'school') dayFlags.isSchoolHoliday = true;
+          dayFlags.holidays.push({
+            name: holiday.name,
+            type: holiday.type,
+            region,
+          });
+        }
+      }
+    }
+
+    return flags;
+  }
+
+  /**
+   * Whether the data completely lists the region's holidays of a type on a date
+   */
+  private isCovered(region: string, type: HolidayType, date: string): boolean {
+    const coverage = this.getCoverage(region, type);
+    return !!coverage && coverage.from <= date && date <= coverage.to;
+  }
+
+  private getCoverage(
+    region: string,
+    type: HolidayType,
+  ): HolidayCoverage | undefined {
+    const calendar = this.calendars.get(region.split('-')[0]);
+    return type === 'public'
+      ? calendar?.coverage.public
+      : calendar?.coverage.school?.[region];
+  }
+
+  /**
+   * Log mapped park regions whose holidays are missing for the coming year
+   */
+  private warnAboutMissingCoverage(): void {
+    const today = new Date().toISOString().split('T')[0];
+    const nextYear = this.addDays(today, 365);
+
+    const regions = new Set([...this.parkRegions.values()].flat());
+    for (const region of regions) {
+      const calendar = this.calendars.get(region.split('-')[0]);
+      if (!calendar) {
+        this.logger.warn(
+          `No holiday data for region ${region} - its holidays are unknown`,
+        );
+        continue;
+      }
+
+      for (const type of ['public', 'school'] as const) {
+        const coverage = this.getCoverage(region, type);
+        if (!coverage) {
+          this.logger.warn(
+            `No ${type} holiday data for region ${region} - its ${type} holidays are unknown`,
+          );
+        } else if (coverage.from > today || coverage.to < nextYear) {
+          this.logger.warn(
+            `${type} holidays of region ${region} are only covered from ${coverage.from} to ${coverage.to} - other dates are unknown`,
+          );
+        }
+      }
+    }
+  }
+
+  private findCalendar(country: string): CountryHolidayCalendar | undefined {
+    const byCode = this.calendars.get(country.toUpperCase());
+    if (byCode) {
+      return byCode;
+    }
+    return [...this.calendars.values()].find(
+      (c) => c.country.toLowerCase() === country.toLowerCase(),
+    );
+  }
+
+  private normalizeName(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+  }
+
+  private addDays(date: string, days: number): string {
+    const result = new Date(`${date}T12:00:00Z`);
+    result.setUTCDate(result.getUTCDate() + days);
+    return result.toISOString().split('T')[0];
+  }
+}
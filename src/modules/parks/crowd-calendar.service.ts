@@ -0,0 +1,457 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Park } from './park.entity.js';
+import { CrowdLevelService } from './crowd-level.service.js';
+import { ParkCrowdCalendarQueryDto } from './parks.dto.js';
+import { ParkUtilsService } from '../utils/park-utils.service.js';
+import { CacheService } from '../utils/cache.service.js';
+import { CrowdLevel } from '../utils/park-utils.types.js';
+import { HolidayFlags, HolidaysService } from '../holidays/holidays.service.js';
+import { RideCrowdBaselineService } from '../rides/ride-crowd-baseline.service.js';
+
+/**
+ * Predicted crowd level of one local date
+ */
+export interface CrowdCalendarDay {
+  date: string;
+  dayOfWeek: number; // ISO day of week, 1 = Monday ... 7 = Sunday
+  level: number | null; // Same scale as the live crowd level, null without history
+  label: CrowdLevel['label'] | null;
+  confidence: number; // 0-100
+  factors: {
+    weekdayLevel: number | null; // Recent average level of the same weekday
+    seasonalFactor: number; // Change from now to the date as observed in previous years
+    weatherFactor: number;
+    holidayFactor: number; // Learned from past holidays, applied on holidays only
+  };
+  holidays: HolidayFlags;
+  weather: {
+    status: string;
+    weatherScore: number;
+    temperatureMax: number;
+    precipitationProbability: number;
+  } | null;
+}
+
+interface DailyLevel {
+  date: string;
+  level: number;
+}
+
+/**
+ * Predicts crowd levels of upcoming dates. Past days are rated on the live crowd level
+ * scale: the day's average hourly wait of the park's top rides relative to the
+ * CrowdLevelService baseline of those rides, built from their precomputed per-ride
+ * 95th percentiles (see RideCrowdBaselineService). A date's prediction is the recent
+ * level of its weekday on regular days, scaled by the seasonal change seen in previous
+ * years, the stored weather forecast and, on public or school holidays, by how much
+ * busier past holidays were than regular days of the same weekday.
+ */
+@Injectable()
+export class CrowdCalendarService {
+  private readonly DEFAULT_RANGE_DAYS = 30;
+  private readonly MAX_RANGE_DAYS = 90;
+  private readonly RECENT_WEEKS = 8;
+  private readonly SEASON_WINDOW_DAYS = 14; // Days around the same date in previous years
+  private readonly SEASON_YEARS = [1, 2];
+  private readonly MIN_SEASON_DAYS = 5;
+  private readonly MIN_DAY_HOURS = 3; // Days with fewer open hours are not rated
+  private readonly MIN_HOLIDAY_DAYS = 5; // Past holidays needed to learn the holiday factor
+  private readonly DAILY_LEVELS_CACHE_TTL = 12 * 3600; // 12 hours
+
+  constructor(
+    @InjectRepository(Park)
+    private readonly parkRepository: Repository<Park>,
+    private readonly crowdLevelService: CrowdLevelService,
+    private readonly crowdBaselineService: RideCrowdBaselineService,
+    private readonly parkUtils: ParkUtilsService,
+    private readonly cacheService: CacheService,
+    private readonly holidaysService: HolidaysService,
+  ) {}
+
+  async findCrowdCalendar(
+    parkId: number,
+    query: ParkCrowdCalendarQueryDto = {},
+  ) {
+    const park = await this.parkRepository.findOne({
+      where: { id: parkId },
+      select: ['id', 'name', 'country', 'timezone'],
+    });
+
+    if (!park) {
+      throw new NotFoundException(`Park with ID ${parkId} not found`);
+    }
+
+    const today = this.parkUtils.getLocalDate(park.timezone);
+    const from = query.from ?? today;
+    const to = query.to ?? this.addDays(from, this.DEFAULT_RANGE_DAYS - 1);
+
+    if (from > to) {
+      throw new BadRequestException('from must not be after to');
+    }
+    if (this.daysBetween(from, to) >= this.MAX_RANGE_DAYS) {
+      throw new BadRequestException(
+        `The range must not exceed ${this.MAX_RANGE_DAYS} days`,
+      );
+    }
+
+    const dailyLevels = await this.getDailyLevels(park);
+    const weatherByDate = await this.getWeatherForecast(parkId, from, to);
+
+    const holidayFlags = this.holidaysService.getParkHolidayFlags(
+      park,
+      dailyLevels.length > 0 && dailyLevels[0].date < from
+        ? dailyLevels[0].date
+        : from,
+      to,
+    );
+    const isHoliday = (date: string) => {
+      const flags = holidayFlags.get(date);
+      return !!flags && (flags.isPublicHoliday || flags.isSchoolHoliday);
+    };
+
+    // Weekday and seasonal patterns are learned from regular days only
+    const regularDays = dailyLevels.filter((d) => !isHoliday(d.date));
+    const levelByDate = new Map(regularDays.map((d) => [d.date, d.level]));
+    const holidayFactor = this.getHolidayFactor(
+      dailyLevels.filter((d) => isHoliday(d.date)),
+      regularDays,
+    );
+
+    const recentFrom = this.addDays(today, -this.RECENT_WEEKS * 7);
+    const recent = regularDays.filter(
+      (d) => d.date >= recentFrom && d.date < today,
+    );
+
+    const data: CrowdCalendarDay[] = [];
+    for (let date = from; date <= to; date = this.addDays(date, 1)) {
+      const dayOfWeek = this.getDayOfWeek(date);
+
+      const sameWeekday = recent.filter(
+        (d) => this.getDayOfWeek(d.date) === dayOfWeek,
+      );
+      const weekdayLevel =
+        sameWeekday.length >= 2
+          ? this.mean(sameWeekday.map((d) => d.level))
+          : recent.length >= 3
+            ? this.mean(recent.map((d) => d.level))
+            : null;
+
+      const seasonal = this.getSeasonalFactor(
+        levelByDate,
+        date,
+        recentFrom,
+        today,
+      );
+
+      const weather = weatherByDate.get(date) ?? null;
+      // Perfect weather keeps the level, the worst weather lowers it by a quarter
+      const weatherFactor = weather ? 0.75 + weather.weatherScore / 400 : 1;
+
+      const dayHolidayFactor = isHoliday(date) ? holidayFactor : 1;
+
+      const level =
+        weekdayLevel !== null
+          ? Math.round(
+              weekdayLevel * seasonal.factor * weatherFactor * dayHolidayFactor,
+            )
+          : null;
+
+      data.push({
+        date,
+        dayOfWeek,
+        level,
+        label:
+          level !== null
+            ? this.crowdLevelService.getCrowdLevelLabel(level)
+            : null,
+        confidence:
+          weekdayLevel !== null
+            ? Math.min(
+                100,
+                Math.round(
+                  (Math.min(sameWeekday.length, this.RECENT_WEEKS) /
+                    this.RECENT_WEEKS) *
+                    60 +
+                    (seasonal.years / this.SEASON_YEARS.length) * 30 +
+                    (weather ? 10 : 0),
+                ),
+              )
+            : 0,
+        factors: {
+          weekdayLevel: weekdayLevel !== null ? Math.round(weekdayLevel) : null,
+          seasonalFactor: Math.round(seasonal.factor * 100) / 100,
+          weatherFactor: Math.round(weatherFactor * 100) / 100,
+          holidayFactor: Math.round(dayHolidayFactor * 100) / 100,
+        },
+        weather,
+        holidays: holidayFlags.get(date) ?? {
+          isPublicHoliday: null,
+          isSchoolHoliday: null,
+          holidays: [],
+          uncoveredRegions: [],
+        },
+      });
+    }
+
+    return {
+      parkId: park.id,
+      parkName: park.name,
+      timezone: park.timezone,
+      from,
+      to,
+      data,
+    };
+  }
+
+  /**
+   * Crowd level of every past local day with enough open hours from the hourly rollups,
+   * cached per park
+   */
+  private async getDailyLevels(park: Park): Promise<DailyLevel[]> {
+    const cacheKey = `crowd_calendar_daily_levels_${park.id}`;
+    const cached = await this.cacheService.getAsync<DailyLevel[]>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const since = new Date(
+      Date.now() -
+        this.crowdLevelService.HISTORICAL_WINDOW_DAYS * 24 * 3600 * 1000,
+    );
+
+    // Top rides by their average wait over the window, as on the live scale
+    const topRides: Array<{ rideId: number }> = await this.parkRepository.query(
+      `
+      WITH ranked AS (
+        SELECT h."rideId",
+               ROW_NUMBER() OVER (
+                 ORDER BY SUM(h."avgWait" * h."waitSampleCount") / SUM(h."nonZeroWaitCount") DESC
+               ) AS rank,
+               COUNT(*) OVER () AS ride_count
+        FROM queue_time_hourly h
+        INNER JOIN ride r ON r.id = h."rideId"
+        WHERE r."parkId" = $1
+          AND r."isActive" = true
+          AND h.hour >= $2
+          AND h."nonZeroWaitCount" > 0
+        GROUP BY h."rideId"
+      )
+      SELECT "rideId"
+      FROM ranked
+      WHERE rank <= GREATEST(3, CEIL(ride_count * $3::float))
+      `,
+      [
+        park.id,
+        since.toISOString(),
+        this.crowdLevelService.TOP_RIDES_PERCENTAGE,
+      ],
+    );
+    const rideIds = topRides.map((ride) => ride.rideId);
+
+    const baseline = this.crowdLevelService.calculateHistoricalBaseline(
+      await this.crowdBaselineService.getBaselines(rideIds),
+    );
+    if (baseline <= 0) {
+      return [];
+    }
+
+    const rows: Array<{ date: string; averageWait: string }> =
+      await this.parkRepository.query(
+        `
+        WITH hourly AS (
+          SELECT h.hour AS hour_slot,
+                 SUM(h."avgWait" * h."waitSampleCount") / SUM(h."nonZeroWaitCount") AS avg_wait
+          FROM queue_time_hourly h
+          WHERE h."rideId" = ANY($1)
+            AND h.hour >= $2
+            AND h."nonZeroWaitCount" > 0
+          GROUP BY h.hour
+        )
+        SELECT TO_CHAR((hour_slot AT TIME ZONE $3)::date, 'YYYY-MM-DD') AS date,
+               AVG(avg_wait) AS "averageWait"
+        FROM hourly
+        GROUP BY 1
+        HAVING COUNT(*) >= $4
+        ORDER BY 1
+        `,
+        [rideIds, since.toISOString(), park.timezone, this.MIN_DAY_HOURS],
+      );
+
+    const levels = rows.map((row) => ({
+      date: row.date,
+      level: Math.round((parseFloat(row.averageWait) / baseline) * 100),
+    }));
+
+    await this.cacheService.setAsync(
+      cacheKey,
+      levels,
+      this.DAILY_LEVELS_CACHE_TTL,
+    );
+    return levels;
+  }
+
+  /**
+   * How much busier the date was than the recent weeks in previous years:
+   * mean level around the same date divided by the mean level of the same recent window
+   */
+  private getSeasonalFactor(
+    levelByDate: Map<string, number>,
+    date: string,
+    recentFrom: string,
+    today: string,
+  ): { factor: number; years: number } {
+    const ratios: number[] = [];
+
+    for (const years of this.SEASON_YEARS) {
+      const target = this.levelsBetween(
+        levelByDate,
+        this.addDays(this.shiftYears(date, -years), -this.SEASON_WINDOW_DAYS),
+        this.addDays(this.shiftYears(date, -years), this.SEASON_WINDOW_DAYS),
+      );
+      const reference = this.levelsBetween(
+        levelByDate,
+        this.shiftYears(recentFrom, -years),
+        this.addDays(this.shiftYears(today, -years), -1),
+      );
+
+      if (
+        target.length >= this.MIN_SEASON_DAYS &&
+        reference.length >= this.MIN_SEASON_DAYS
+      ) {
+        const referenceMean = this.mean(reference);
+        if (referenceMean > 0) {
+          ratios.push(this.mean(target) / referenceMean);
+        }
+      }
+    }
+
+    if (ratios.length === 0) {
+      return { factor: 1, years: 0 };
+    }
+    return {
+      factor: Math.min(2, Math.max(0.5, this.mean(ratios))),
+      years: ratios.length,
+    };
+  }
+
+  /**
+   * Average ratio of past holiday levels to the regular level of the same weekday, 1 without enough holidays
+   */
+  private getHolidayFactor(
+    holidays: DailyLevel[],
+    regularDays: DailyLevel[],
+  ): number {
+    const weekdayMeans = new Map<number, number>();
+    for (let dayOfWeek = 1; dayOfWeek <= 7; dayOfWeek++) {
+      const levels = regularDays
+        .filter((d) => this.getDayOfWeek(d.date) === dayOfWeek)
+        .map((d) => d.level);
+      if (levels.length > 0) {
+        weekdayMeans.set(dayOfWeek, this.mean(levels));
+      }
+    }
+
+    const ratios = holidays
+      .map((d) => {
+        const weekdayMean = weekdayMeans.get(this.getDayOfWeek(d.date));
+        return weekdayMean ? d.level / weekdayMean : null;
+      })
+      .filter((ratio): ratio is number => ratio !== null);
+
+    if (ratios.length < this.MIN_HOLIDAY_DAYS) {
+      return 1;
+    }
+    return Math.min(2.5, Math.max(0.5, this.mean(ratios)));
+  }
+
+  /**
+   * Latest stored weather forecast per local date
+   */
+  private async getWeatherForecast(
+    parkId: number,
+    from: string,
+    to: string,
+  ): Promise<Map<string, NonNullable<CrowdCalendarDay['weather']>>> {
+    const rows: Array<{
+      date: string;
+      status: string;
+      weatherScore: number;
+      temperatureMax: number;
+      precipitationProbability: number;
+    }> = await this.parkRepository.query(
+      `
+      SELECT TO_CHAR(wd."weatherDate", 'YYYY-MM-DD') AS date,
+             wd.status,
+             wd."weatherScore",
+             wd."temperatureMax",
+             wd."precipitationProbability"
+      FROM weather_data wd
+      WHERE wd.park_id = $1
+        AND wd."dataType" = 'forecast'
+        AND wd."isFetchFailed" = false
+        AND wd."weatherDate" BETWEEN $2 AND $3
+      `,
+      [parkId, from, to],
+    );
+
+    return new Map(
+      rows.map((row) => [
+        row.date,
+        {
+          status: row.status,
+          weatherScore: row.weatherScore,
+          temperatureMax: row.temperatureMax,
+          precipitationProbability: row.precipitationProbability,
+        },
+      ]),
+    );
+  }
+
+  private levelsBetween(
+    levelByDate: Map<string, number>,
+    from: string,
+    to: string,
+  ): number[] {
+    const levels: number[] = [];
+    for (let date = from; date <= to; date = this.addDays(date, 1)) {
+      const level = levelByDate.get(date);
+      if (level !== undefined) levels.push(level);
+    }
+    return levels;
+  }
+
+  private mean(values: number[]): number {
+    return values.reduce((sum, value) => sum + value, 0) / values.length;
+  }
+
+  private addDays(date: string, days: number): string {
+    const result = new Date(`${date}T12:00:00Z`);
+    result.setUTCDate(result.getUTCDate() + days);
+    return result.toISOString().split('T')[0];
+  }
+
+  private shiftYears(date: string, years: number): string {
+    const result = new Date(`${date}T12:00:00Z`);
+    result.setUTCFullYear(result.getUTCFullYear() + years);
+    return result.toISOString().split('T')[0];
+  }
+
+  private daysBetween(from: string, to: string): number {
+    return Math.round(
+      (new Date(`${to}T12:00:00Z`).getTime() -
+        new Date(`${from}T12:00:00Z`).getTime()) /
+        (24 * 3600 * 1000),
+    );
+  }
+
+  private getDayOfWeek(date: string): number {
+    const day = new Date(`${date}T12:00:00Z`).getUTCDay();
+    return day === 0 ? 7 : day;
+  }
+}
@@ -1,16 +1,19 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import { QueueTime } from './queue-time.entity.js';
+import {
+  CROWD_BASELINE_PERCENTILE,
+  CROWD_BASELINE_WINDOW_DAYS,
+  RideCrowdBaseline,
+} from './ride-crowd-baseline.entity.js';
 import {
   CrowdLevel,
   Park as ParkType,
+  QueueTime as QueueTimeType,
   Ride as RideType,
 } from '../utils/park-utils.types.js';
 import { ParkUtilsService } from '../utils/park-utils.service.js';
-import { CacheService } from '../utils/cache.service.js';
+import { RideCrowdBaselineService } from '../rides/ride-crowd-baseline.service.js';
 
-type RideWithQueueTime = RideType & { latestQueueTime: QueueTime | null };
+type RideWithQueueTime = RideType & { latestQueueTime: QueueTimeType | null };
 
 /**
  * Service for calculating park crowd levels based on historical queue time data
@@ -20,16 +23,14 @@ export class CrowdLevelService {
   private readonly logger = new Logger(CrowdLevelService.name);
 
   // Configuration constants
-  private readonly TOP_RIDES_PERCENTAGE = 0.3; // Use top 30% of rides
-  private readonly HISTORICAL_WINDOW_DAYS = 730; // 2 years
-  private readonly PERCENTILE = 0.95; // 95th percentile
+  readonly TOP_RIDES_PERCENTAGE = 0.3; // Use top 30% of rides
+  readonly HISTORICAL_WINDOW_DAYS = CROWD_BASELINE_WINDOW_DAYS; // 2 years
+  readonly PERCENTILE = CROWD_BASELINE_PERCENTILE; // 95th percentile
   private readonly MIN_DATA_POINTS = 10; // Minimum data points for reliable calculation
 
   constructor(
-    @InjectRepository(QueueTime)
-    private readonly queueTimeRepository: Repository<QueueTime>,
     private readonly parkUtils: ParkUtilsService,
-    private readonly cacheService: CacheService,
+    private readonly crowdBaselineService: RideCrowdBaselineService,
   ) {}
 
   /**
@@ -39,13 +40,34 @@ export class CrowdLevelService {
     park: ParkType,
     rideQueueTimeMap: Map<number, any>, // Pre-loaded queue times from cache
   ): Promise<CrowdLevel> {
-    try {
-      this.logger.debug(
-        `Starting crowd level calculation for park: ${park.name} (cache version)`,
-      );
+    this.logger.debug(
+      `Starting crowd level calculation for park: ${park.name} (cache version)`,
+    );
 
-      // Get all rides from the park and filter those with current queue time data
-      const allRides = this.parkUtils.getAllRidesFromPark(park);
+    const allRides = this.parkUtils
+      .getAllRidesFromPark(park)
+      .filter((ride) => ride.isActive !== false);
+
+    return this.calculateCrowdLevelForRides(
+      allRides,
+      rideQueueTimeMap as Map<number, QueueTimeType | null>,
+    );
+  }
+
+  /**
+   * Calculate crowd level for a set of active rides from their queue times at one moment.
+   * Shared by the live park view and the park timeline so both use the same formula.
+   * @param allRides Active rides of the park
+   * @param rideQueueTimeMap Queue time per ride ID at the moment of calculation
+   * @param calculatedAt Moment the queue times refer to
+   */
+  async calculateCrowdLevelForRides(
+    allRides: RideType[],
+    rideQueueTimeMap: Map<number, QueueTimeType | null>,
+    calculatedAt: Date = new Date(),
+  ): Promise<CrowdLevel> {
+    try {
+      // Filter rides with current queue time data
       const ridesWithCurrentData = allRides
         .map((ride) => {
           const currentQueueTime = rideQueueTimeMap.get(ride.id);
@@ -54,7 +76,13 @@ export class CrowdLevelService {
             latestQueueTime: currentQueueTime || null,
           };
         })
-        .filter((ride) => ride.latestQueueTime && ride.latestQueueTime.isOpen);
+        // Suspect wait times would skew the average
+        .filter(
+          (ride) =>
+            ride.latestQueueTime &&
+            ride.latestQueueTime.isOpen &&
+            !ride.latestQueueTime.suspect,
+        );
 
       if (ridesWithCurrentData.length === 0) {
         this.logger.debug(
@@ -92,10 +120,11 @@ export class CrowdLevelService {
       const currentAverage = this.calculateAverageWaitTime(topRides);
       this.logger.debug(`Current average wait time: ${currentAverage}`);
 
-      // Get historical baseline for these rides (still need database for historical data)
-      const historicalBaseline = await this.calculateHistoricalBaseline(
+      // Precomputed baselines of these rides, refreshed in the background
+      const baselines = await this.crowdBaselineService.getBaselines(
         topRides.map((ride) => ride.id),
       );
+      const historicalBaseline = this.calculateHistoricalBaseline(baselines);
       this.logger.debug(`Historical baseline: ${historicalBaseline}`);
 
       // Calculate crowd level percentage
@@ -107,9 +136,7 @@ export class CrowdLevelService {
       this.logger.debug(`Calculated crowd level: ${crowdLevel}%`);
 
       // Determine confidence based on available historical data
-      const confidence = await this.calculateConfidence(
-        topRides.map((ride) => ride.id),
-      );
+      const confidence = this.calculateConfidence(baselines, topRides.length);
 
       this.logger.debug(`Confidence level: ${confidence}%`);
 
@@ -124,7 +151,7 @@ export class CrowdLevelService {
         historicalBaseline,
         currentAverage,
         confidence,
-        calculatedAt: new Date(),
+        calculatedAt,
       };
     } catch (error) {
       this.logger.error('Error calculating crowd level from cache:', error);
@@ -162,156 +189,92 @@ export class CrowdLevelService {
   }
 
   /**
-   * Calculate historical baseline (95th percentile) for given rides over the last 2 years
-   * Uses caching to avoid expensive database queries for the same ride combinations
+   * Calculate historical baseline for given rides over the last 2 years: the 95th
+   * percentile of each ride's hourly average waits, averaged over the rides weighted by
+   * their samples. Rides with too few hours of data are left out. Also rates past days
+   * of the crowd calendar.
    */
-  private async calculateHistoricalBaseline(
-    rideIds: number[],
-  ): Promise<number> {
-    if (rideIds.length === 0) return 0;
-
-    // Create cache key based on sorted ride IDs and current day
-    // We use daily granularity since new queue time data comes in throughout the day
-    const sortedRideIds = [...rideIds].sort((a, b) => a - b);
-    const currentDay = Math.floor(Date.now() / (1000 * 60 * 60 * 24));
-    const cacheKey = `historical_baseline:${sortedRideIds.join(',')}:day:${currentDay}`;
-
-    // Check cache first
-    const cached = await this.cacheService.getAsync<number>(cacheKey);
-    if (cached !== null && cached !== undefined) {
-      this.logger.debug(
-        `Historical baseline cache hit for ${rideIds.length} rides`,
-      );
-      return cached;
-    }
-
-    this.logger.debug(
-      `Historical baseline cache miss, querying database for ${rideIds.length} rides`,
+  calculateHistoricalBaseline(baselines: RideCrowdBaseline[]): number {
+    const rated = baselines.filter(
+      (baseline) =>
+        baseline.p95Wait !== null && baseline.hourCount >= this.MIN_DATA_POINTS,
     );
-
-    // Get historical data for the last 2 years
-    const cutoffDate = new Date();
-    cutoffDate.setDate(cutoffDate.getDate() - this.HISTORICAL_WINDOW_DAYS);
-
-    const result = await this.queueTimeRepository.query(
-      `
-      WITH hourly AS (
-        SELECT DATE_TRUNC('hour', qt."lastUpdated") AS hour_slot,
-               AVG(qt."waitTime") AS avg_wait
-        FROM queue_time qt
-        WHERE qt."rideId" = ANY($1)
-          AND qt."lastUpdated" >= $2
-          AND qt."isOpen" = true
-          AND qt."waitTime" > 0
-        GROUP BY hour_slot
-      )
-      SELECT COUNT(*) AS count,
-             PERCENTILE_CONT($3) WITHIN GROUP (ORDER BY avg_wait) AS percentile
-      FROM hourly
-      `,
-      [rideIds, cutoffDate.toISOString(), this.PERCENTILE],
+    const totalSamples = rated.reduce(
+      (sum, baseline) => sum + baseline.sampleCount,
+      0,
     );
-
-    const row = result[0];
-    let baseline = 0;
-
-    if (row && parseInt(row.count, 10) >= this.MIN_DATA_POINTS) {
-      baseline = parseFloat(row.percentile);
+    if (totalSamples === 0) {
+      return 0;
     }
 
-    // Cache the result for 4 hours (refreshes multiple times per day as new data comes in)
-    await this.cacheService.setAsync(cacheKey, baseline, 4 * 3600);
-
-    return baseline;
+    return (
+      rated.reduce(
+        (sum, baseline) => sum + (baseline.p95Wait ?? 0) * baseline.sampleCount,
+        0,
+      ) / totalSamples
+    );
   }
 
   /**
-   * Calculate confidence level based on available historical data coverage
-   * Uses caching to avoid expensive database queries for the same ride combinations
+   * Calculate confidence level based on the historical data coverage of the given rides
    */
-  private async calculateConfidence(rideIds: number[]): Promise<number> {
-    if (rideIds.length === 0) return 0;
-
-    // Create cache key based on sorted ride IDs and current day
-    const sortedRideIds = [...rideIds].sort((a, b) => a - b);
-    const currentDay = Math.floor(Date.now() / (1000 * 60 * 60 * 24));
-    const cacheKey = `confidence:${sortedRideIds.join(',')}:day:${currentDay}`;
-
-    // Check cache first
-    const cached = await this.cacheService.getAsync<number>(cacheKey);
-    if (cached !== null && cached !== undefined) {
-      this.logger.debug(`Confidence cache hit for ${rideIds.length} rides`);
-      return cached;
+  private calculateConfidence(
+    baselines: RideCrowdBaseline[],
+    rideCount: number,
+  ): number {
+    if (rideCount === 0) return 0;
+
+    const withData = baselines.filter(
+      (baseline) =>
+        baseline.firstHour && baseline.lastHour && baseline.sampleCount > 0,
+    );
+    if (withData.length === 0) {
+      return 10; // Default minimum confidence
     }
 
-    this.logger.debug(
-      `Confidence cache miss, querying database for ${rideIds.length} rides`,
+    const firstDataTime = Math.min(
+      ...withData.map((baseline) => new Date(baseline.firstHour).getTime()),
     );
-
-    const cutoffDate = new Date();
-    cutoffDate.setDate(cutoffDate.getDate() - this.HISTORICAL_WINDOW_DAYS);
-
-    const dataRange = await this.queueTimeRepository.query(
-      `
-      SELECT MIN(qt."lastUpdated") AS "firstDate",
-             MAX(qt."lastUpdated") AS "lastDate",
-             COUNT(*) AS "totalCount"
-      FROM queue_time qt
-      WHERE qt."rideId" = ANY($1)
-        AND qt."lastUpdated" >= $2
-        AND qt."isOpen" = true
-        AND qt."waitTime" > 0
-      `,
-      [rideIds, cutoffDate.toISOString()],
+    const lastDataTime = Math.max(
+      ...withData.map((baseline) => new Date(baseline.lastHour).getTime()),
     );
 
-    const rangeRow = dataRange[0];
-    let confidence = 10; // Default minimum confidence
-
-    if (rangeRow && rangeRow.firstDate && rangeRow.totalCount !== '0') {
-      const firstDataDate = new Date(rangeRow.firstDate);
-      const lastDataDate = new Date(rangeRow.lastDate);
-
-      // Calculate actual data coverage (days between first and last data point)
-      const actualDataDays = Math.ceil(
-        (lastDataDate.getTime() - firstDataDate.getTime()) /
-          (1000 * 60 * 60 * 24),
-      );
-
-      // Calculate coverage percentage against the full historical window
-      const coveragePercentage = Math.min(
-        100,
-        (actualDataDays / this.HISTORICAL_WINDOW_DAYS) * 100,
-      );
-
-      // Also consider data density (minimum data points per day)
-      const totalCount = parseInt(rangeRow.totalCount, 10);
-      const expectedDataPointsPerDay = 24; // Assuming hourly data
-      const expectedTotalPoints =
-        this.HISTORICAL_WINDOW_DAYS * expectedDataPointsPerDay * rideIds.length;
-      const densityPercentage = Math.min(
-        100,
-        (totalCount / expectedTotalPoints) * 100,
-      );
+    // Calculate actual data coverage (days between first and last data point)
+    const actualDataDays = Math.ceil(
+      (lastDataTime - firstDataTime) / (1000 * 60 * 60 * 24),
+    );
 
-      // Final confidence is the average of coverage and density, weighted towards coverage
-      confidence = Math.round(
-        coveragePercentage * 0.7 + densityPercentage * 0.3,
-      );
+    // Calculate coverage percentage against the full historical window
+    const coveragePercentage = Math.min(
+      100,
+      (actualDataDays / this.HISTORICAL_WINDOW_DAYS) * 100,
+    );
 
-      confidence = Math.max(10, Math.min(100, confidence)); // Between 10% and 100%
-    }
+    // Also consider data density (minimum data points per day)
+    const totalCount = withData.reduce(
+      (sum, baseline) => sum + baseline.sampleCount,
+      0,
+    );
+    const expectedDataPointsPerDay = 24; // Assuming hourly data
+    const expectedTotalPoints =
+      this.HISTORICAL_WINDOW_DAYS * expectedDataPointsPerDay * rideCount;
+    const densityPercentage = Math.min(
+      100,
+      (totalCount / expectedTotalPoints) * 100,
+    );
 
-    // Cache the result for 4 hours (refreshes multiple times per day as new data comes in)
-    await this.cacheService.setAsync(cacheKey, confidence, 4 * 3600);
+    // Final confidence is the average of coverage and density, weighted towards coverage
+    const confidence = Math.round(
+      coveragePercentage * 0.7 + densityPercentage * 0.3,
+    );
 
-    return confidence;
+    return Math.max(10, Math.min(100, confidence)); // Between 10% and 100%
   }
 
   /**
    * Get descriptive label for crowd level
    */
-  private getCrowdLevelLabel(level: number): CrowdLevel['label'] {
+  getCrowdLevelLabel(level: number): CrowdLevel['label'] {
     if (level < 30) return 'Very Low';
     if (level < 60) return 'Low';
     if (level < 120) return 'Moderate';
@@ -0,0 +1,212 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CacheService } from '../utils/cache.service.js';
+
+export enum CircuitState {
+  CLOSED = 'closed', // Upstream healthy, park is polled normally
+  OPEN = 'open', // Too many failures, polling paused until nextRetryAt
+  HALF_OPEN = 'half-open', // Backoff elapsed, the next poll decides
+}
+
+export interface ParkCircuit {
+  state: CircuitState;
+  consecutiveFailures: number;
+  lastFailureAt: string | null;
+  lastError: string | null;
+  openedAt: string | null;
+  nextRetryAt: string | null;
+}
+
+export type DataAvailabilityStatus = 'available' | 'degraded' | 'unavailable';
+
+export interface ParkDataAvailability {
+  status: DataAvailabilityStatus;
+  circuitState: CircuitState;
+  consecutiveFailures: number;
+  lastFailureAt: string | null;
+  lastError: string | null;
+  nextRetryAt: string | null;
+}
+
+/**
+ * Per-park circuit breaker for upstream queue time fetches, persisted in Redis.
+ * After CIRCUIT_FAILURE_THRESHOLD consecutive failures the circuit opens and the
+ * park is skipped for an exponentially growing backoff. Once the backoff elapsed
+ * the circuit is half-open: one success closes it, one failure reopens it.
+ */
+@Injectable()
+export class ParkCircuitBreakerService {
+  private readonly logger = new Logger(ParkCircuitBreakerService.name);
+  private readonly CIRCUIT_TTL_SECONDS = 7 * 24 * 3600;
+
+  private readonly failureThreshold: number;
+  private readonly baseBackoffMinutes: number;
+  private readonly maxBackoffMinutes: number;
+
+  constructor(
+    private readonly cacheService: CacheService,
+    private readonly configService: ConfigService,
+  ) {
+    this.failureThreshold = Number(
+      this.configService.get('CIRCUIT_FAILURE_THRESHOLD', 3),
+    );
+    this.baseBackoffMinutes = Number(
+      this.configService.get('CIRCUIT_BASE_BACKOFF_MINUTES', 5),
+    );
+    this.maxBackoffMinutes = Number(
+      this.configService.get('CIRCUIT_MAX_BACKOFF_MINUTES', 360),
+    );
+  }
+
+  /**
+   * Get the circuit of a park, closed if none is stored
+   */
+  async getCircuit(parkId: number): Promise<ParkCircuit> {
+    const circuit = await this.cacheService.getAsync<ParkCircuit>(
+      this.getCacheKey(parkId),
+    );
+
+    return (
+      circuit ?? {
+        state: CircuitState.CLOSED,
+        consecutiveFailures: 0,
+        lastFailureAt: null,
+        lastError: null,
+        openedAt: null,
+        nextRetryAt: null,
+      }
+    );
+  }
+
+  /**
+   * Filter out parks whose circuit is open.
+   * Open circuits whose backoff has elapsed move to half-open and are let through.
+   */
+  async filterAvailableParks(
+    parkIds: number[],
+    now: Date = new Date(),
+  ): Promise<number[]> {
+    const circuits = await Promise.all(
+      parkIds.map((parkId) => this.getCircuit(parkId)),
+    );
+
+    const availableParkIds: number[] = [];
+    for (let i = 0; i < parkIds.length; i++) {
+      const circuit = circuits[i];
+
+      if (circuit.state !== CircuitState.OPEN) {
+        availableParkIds.push(parkIds[i]);
+      } else if (
+        circuit.nextRetryAt &&
+        new Date(circuit.nextRetryAt).getTime() <= now.getTime()
+      ) {
+        await this.saveCircuit(parkIds[i], {
+          ...circuit,
+          state: CircuitState.HALF_OPEN,
+        });
+        availableParkIds.push(parkIds[i]);
+      }
+    }
+
+    return availableParkIds;
+  }
+
+  /**
+   * Close the circuit after a successful fetch
+   */
+  async recordSuccess(parkId: number): Promise<void> {
+    const circuit = await this.getCircuit(parkId);
+    if (circuit.consecutiveFailures === 0) return;
+
+    if (circuit.state !== CircuitState.CLOSED) {
+      this.logger.log(
+        `Circuit for park ${parkId} closed after ${circuit.consecutiveFailures} failures`,
+      );
+    }
+    await this.cacheService.deleteAsync(this.getCacheKey(parkId));
+  }
+
+  /**
+   * Count a failed fetch and open the circuit once the threshold is reached
+   */
+  async recordFailure(
+    parkId: number,
+    errorMessage: string | null,
+    now: Date = new Date(),
+  ): Promise<ParkCircuit> {
+    const circuit = await this.getCircuit(parkId);
+    const consecutiveFailures = circuit.consecutiveFailures + 1;
+
+    const updatedCircuit: ParkCircuit = {
+      ...circuit,
+      consecutiveFailures,
+      lastFailureAt: now.toISOString(),
+      lastError: errorMessage,
+    };
+
+    if (
+      circuit.state === CircuitState.HALF_OPEN ||
+      consecutiveFailures >= this.failureThreshold
+    ) {
+      // Double the backoff for every failure beyond the threshold
+      const backoffMinutes = Math.min(
+        this.baseBackoffMinutes *
+          Math.pow(2, Math.max(0, consecutiveFailures - this.failureThreshold)),
+        this.maxBackoffMinutes,
+      );
+
+      if (circuit.state !== CircuitState.OPEN) {
+        this.logger.warn(
+          `Circuit for park ${parkId} opened after ${consecutiveFailures} failures, retrying in ${backoffMinutes} minutes`,
+        );
+      }
+
+      updatedCircuit.state = CircuitState.OPEN;
+      updatedCircuit.openedAt = circuit.openedAt ?? now.toISOString();
+      updatedCircuit.nextRetryAt = new Date(
+        now.getTime() + backoffMinutes * 60 * 1000,
+      ).toISOString();
+    }
+
+    await this.saveCircuit(parkId, updatedCircuit);
+    return updatedCircuit;
+  }
+
+  /**
+   * Data availability of a park for API responses
+   */
+  async getDataAvailability(parkId: number): Promise<ParkDataAvailability> {
+    const circuit = await this.getCircuit(parkId);
+
+    let status: DataAvailabilityStatus = 'available';
+    if (circuit.state === CircuitState.OPEN) {
+      status = 'unavailable';
+    } else if (circuit.consecutiveFailures > 0) {
+      status = 'degraded';
+    }
+
+    return {
+      status,
+      circuitState: circuit.state,
+      consecutiveFailures: circuit.consecutiveFailures,
+      lastFailureAt: circuit.lastFailureAt,
+      lastError: circuit.lastError,
+      nextRetryAt: circuit.nextRetryAt,
+    };
+  }
+
+  private async saveCircuit(
+    parkId: number,
+    circuit: ParkCircuit,
+  ): Promise<void> {
+    await this.cacheService.setAsync(
+      this.getCacheKey(parkId),
+      circuit,
+      this.CIRCUIT_TTL_SECONDS,
+    );
+  }
+
+  private getCacheKey(parkId: number): string {
+    return `park_circuit_${parkId}`;
+  }
+}
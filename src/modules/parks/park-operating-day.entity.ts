@@ -0,0 +1,43 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { Park } from './park.entity.js';
+
+/**
+ * Operating hours of a park on one local day, inferred from the share of open rides
+ */
+@Entity()
+export class ParkOperatingDay {
+  @PrimaryColumn()
+  parkId: number;
+
+  // Local date in the park's time zone (YYYY-MM-DD)
+  @PrimaryColumn({ type: 'date' })
+  date: string;
+
+  @ManyToOne(() => Park, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'parkId' })
+  park: Park;
+
+  // First and last 5-minute slot with at least PARK_OPEN_THRESHOLD_PERCENT of rides open,
+  // both null when the park did not open that day
+  @Column({ type: 'timestamptz', nullable: true })
+  opensAt: Date | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  closesAt: Date | null;
+
+  @Column('float')
+  peakOpenPercentage: number;
+
+  @Column('int')
+  openThreshold: number;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updatedAt: Date;
+}
@@ -0,0 +1,236 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Between, Repository } from 'typeorm';
+import { Park } from './park.entity.js';
+import { ParkOperatingDay } from './park-operating-day.entity.js';
+import { ParkHoursQueryDto } from './parks.dto.js';
+import { ParkUtilsService } from '../utils/park-utils.service.js';
+
+/**
+ * Typical operating hours of a park as shown on the park detail
+ */
+export interface TypicalOperatingHours {
+  today: {
+    date: string;
+    opensAt: Date | null;
+    closesAt: Date | null;
+  } | null;
+  typicalOpensAt: string | null; // Local time HH:MM
+  typicalClosesAt: string | null; // Local time HH:MM
+  basedOnDays: number;
+}
+
+/**
+ * Infers daily park operating hours from queue time samples: samples are grouped
+ * into 5-minute slots and a park counts as open in a slot when at least
+ * PARK_OPEN_THRESHOLD_PERCENT of its active rides sampled that day were open.
+ */
+@Injectable()
+export class ParkOperatingHoursService {
+  private readonly logger = new Logger(ParkOperatingHoursService.name);
+  private readonly DEFAULT_RANGE_DAYS = 14;
+  private readonly TYPICAL_HOURS_WINDOW_DAYS = 30;
+
+  constructor(
+    @InjectRepository(ParkOperatingDay)
+    private readonly operatingDayRepository: Repository<ParkOperatingDay>,
+    @InjectRepository(Park)
+    private readonly parkRepository: Repository<Park>,
+    private readonly parkUtils: ParkUtilsService,
+  ) {}
+
+  /**
+   * Infer operating hours of all parks for the local days after the given moment.
+   * The day containing `since` is skipped as its samples are incomplete.
+   * @returns Number of stored park days
+   */
+  async inferOperatingDays(since: Date): Promise<number> {
+    const threshold = Number(this.parkUtils.getDefaultOpenThreshold());
+
+    const rows: Array<{ parkId: number }> =
+      await this.operatingDayRepository.query(
+        `
+        WITH samples AS (
+          SELECT r."parkId",
+                 qt."rideId",
+                 qt."isOpen",
+                 qt."lastUpdated",
+                 (qt."lastUpdated" AT TIME ZONE p.timezone)::date AS local_date,
+                 ($1::timestamptz AT TIME ZONE p.timezone)::date AS since_date
+          FROM queue_time qt
+          INNER JOIN ride r ON r.id = qt."rideId" AND r."isActive" = true
+          INNER JOIN park p ON p.id = r."parkId"
+          WHERE qt."lastUpdated" >= $1
+        ),
+        day_rides AS (
+          SELECT "parkId", local_date, COUNT(DISTINCT "rideId") AS ride_count
+          FROM samples
+          WHERE local_date > since_date
+          GROUP BY "parkId", local_date
+        ),
+        slots AS (
+          SELECT "parkId", local_date,
+                 TO_TIMESTAMP(FLOOR(EXTRACT(EPOCH FROM "lastUpdated") / 300) * 300) AS slot,
+                 COUNT(DISTINCT "rideId") FILTER (WHERE "isOpen") AS open_rides
+          FROM samples
+          WHERE local_date > since_date
+          GROUP BY "parkId", local_date, slot
+        ),
+        slot_shares AS (
+          SELECT s."parkId", s.local_date, s.slot,
+                 100.0 * s.open_rides / d.ride_count AS open_percentage
+          FROM slots s
+          INNER JOIN day_rides d
+            ON d."parkId" = s."parkId"
+           AND d.local_date = s.local_date
+        )
+        INSERT INTO park_operating_day (
+          "parkId", "date", "opensAt", "closesAt", "peakOpenPercentage", "openThreshold", "updatedAt"
+        )
+        SELECT "parkId",
+               local_date,
+               MIN(slot) FILTER (WHERE open_percentage >= $2),
+               MAX(slot) FILTER (WHERE open_percentage >= $2),
+               ROUND(MAX(open_percentage), 1),
+               $2,
+               NOW()
+        FROM slot_shares
+        GROUP BY "parkId", local_date
+        ON CONFLICT ("parkId", "date") DO UPDATE
+          SET "opensAt" = EXCLUDED."opensAt",
+              "closesAt" = EXCLUDED."closesAt",
+              "peakOpenPercentage" = EXCLUDED."peakOpenPercentage",
+              "openThreshold" = EXCLUDED."openThreshold",
+              "updatedAt" = EXCLUDED."updatedAt"
+        RETURNING "parkId"
+        `,
+        [since.toISOString(), threshold],
+      );
+
+    this.logger.debug(`Inferred operating hours of ${rows.length} park days`);
+    return rows.length;
+  }
+
+  /**
+   * Get inferred operating hours of a park per local day (default: last 14 days)
+   */
+  async findParkHours(parkId: number, query: ParkHoursQueryDto = {}) {
+    const park = await this.findPark(parkId);
+
+    const to = query.to ?? this.parkUtils.getLocalDate(park.timezone);
+    const from =
+      query.from ??
+      this.parkUtils.getLocalDate(
+        park.timezone,
+        new Date(
+          new Date(`${to}T12:00:00Z`).getTime() -
+            (this.DEFAULT_RANGE_DAYS - 1) * 24 * 3600 * 1000,
+        ),
+      );
+
+    const days = await this.operatingDayRepository.find({
+      where: { parkId, date: Between(from, to) },
+      order: { date: 'ASC' },
+    });
+
+    return {
+      parkId: park.id,
+      parkName: park.name,
+      timezone: park.timezone,
+      from,
+      to,
+      data: days.map((day) => ({
+        date: day.date,
+        isOpen: day.opensAt !== null,
+        opensAt: day.opensAt,
+        closesAt: day.closesAt,
+        opensAtLocal: this.formatLocalTime(day.opensAt, park.timezone),
+        closesAtLocal: this.formatLocalTime(day.closesAt, park.timezone),
+        peakOpenPercentage: day.peakOpenPercentage,
+      })),
+    };
+  }
+
+  /**
+   * Today's inferred hours plus the median opening and closing time of recent open days
+   */
+  async getTypicalHours(
+    parkId: number,
+    timezone: string,
+  ): Promise<TypicalOperatingHours> {
+    const todayDate = this.parkUtils.getLocalDate(timezone);
+    const cutoffDate = this.parkUtils.getLocalDate(
+      timezone,
+      new Date(Date.now() - this.TYPICAL_HOURS_WINDOW_DAYS * 24 * 3600 * 1000),
+    );
+
+    const [row]: Array<{
+      openMinute: string | null;
+      closeMinute: string | null;
+      days: string;
+    }> = await this.operatingDayRepository.query(
+      `
+      SELECT PERCENTILE_CONT(0.5) WITHIN GROUP (
+               ORDER BY EXTRACT(EPOCH FROM ("opensAt" AT TIME ZONE $2)::time) / 60
+             ) AS "openMinute",
+             PERCENTILE_CONT(0.5) WITHIN GROUP (
+               ORDER BY EXTRACT(EPOCH FROM ("closesAt" AT TIME ZONE $2)::time) / 60
+             ) AS "closeMinute",
+             COUNT(*) AS days
+      FROM park_operating_day
+      WHERE "parkId" = $1
+        AND "date" >= $3
+        AND "date" < $4
+        AND "opensAt" IS NOT NULL
+      `,
+      [parkId, timezone, cutoffDate, todayDate],
+    );
+
+    const today = await this.operatingDayRepository.findOne({
+      where: { parkId, date: todayDate },
+    });
+
+    return {
+      today: today
+        ? { date: today.date, opensAt: today.opensAt, closesAt: today.closesAt }
+        : null,
+      typicalOpensAt: this.formatMinuteOfDay(row?.openMinute),
+      typicalClosesAt: this.formatMinuteOfDay(row?.closeMinute),
+      basedOnDays: row ? parseInt(row.days, 10) : 0,
+    };
+  }
+
+  private async findPark(parkId: number): Promise<Park> {
+    const park = await this.parkRepository.findOne({
+      where: { id: parkId },
+      select: ['id', 'name', 'timezone'],
+    });
+
+    if (!park) {
+      throw new NotFoundException(`Park with ID ${parkId} not found`);
+    }
+    return park;
+  }
+
+  private formatMinuteOfDay(minute: string | null | undefined): string | null {
+    if (minute === null || minute === undefined) return null;
+    const rounded = Math.round(parseFloat(minute));
+    return `${String(Math.floor(rounded / 60) % 24).padStart(2, '0')}:${String(
+      rounded % 60,
+    ).padStart(2, '0')}`;
+  }
+
+  private formatLocalTime(date: Date | null, timezone: string): string | null {
+    if (!date) return null;
+    try {
+      return new Intl.DateTimeFormat('en-GB', {
+        timeZone: timezone,
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23',
+      }).format(date);
+    } catch {
+      return date.toISOString().substring(11, 16);
+    }
+  }
+}
@@ -0,0 +1,248 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Park } from './park.entity.js';
+import { Ride } from './ride.entity.js';
+import { CrowdLevelService } from './crowd-level.service.js';
+import { ParkUtilsService } from '../utils/park-utils.service.js';
+import { CacheService } from '../utils/cache.service.js';
+import { HolidayFlags, HolidaysService } from '../holidays/holidays.service.js';
+import {
+  CrowdLevel,
+  QueueTime as QueueTimeType,
+  Ride as RideType,
+} from '../utils/park-utils.types.js';
+
+/**
+ * One interval of the park timeline
+ */
+export interface ParkTimelineEntry {
+  timestamp: Date; // Start of the interval
+  averageWaitTime: number | null; // Across open rides
+  openRideCount: number;
+  totalRideCount: number;
+  operatingPercentage: number;
+  isOpen: boolean;
+  crowdLevel: Pick<CrowdLevel, 'level' | 'label' | 'confidence'> | null;
+}
+
+export interface ParkTimeline {
+  parkId: number;
+  parkName: string;
+  timezone: string;
+  date: string;
+  intervalMinutes: number;
+  holidays: HolidayFlags;
+  data: ParkTimelineEntry[];
+}
+
+/**
+ * Builds a park-wide series over one local day. Each interval replays the latest
+ * queue time per ride at its end and derives the numbers with the same logic as
+ * the live park view (ParkUtilsService operating status, CrowdLevelService crowd level).
+ */
+@Injectable()
+export class ParkTimelineService {
+  private readonly INTERVAL_MINUTES = 15;
+  private readonly MAX_SAMPLE_AGE_MINUTES = 30; // Older samples no longer describe a ride, unless repeated later
+  private readonly TODAY_CACHE_TTL = 5 * 60; // 5 minutes
+  private readonly PAST_CACHE_TTL = 24 * 3600; // 24 hours
+
+  constructor(
+    @InjectRepository(Park)
+    private readonly parkRepository: Repository<Park>,
+    @InjectRepository(Ride)
+    private readonly rideRepository: Repository<Ride>,
+    private readonly crowdLevelService: CrowdLevelService,
+    private readonly parkUtils: ParkUtilsService,
+    private readonly cacheService: CacheService,
+    private readonly holidaysService: HolidaysService,
+  ) {}
+
+  /**
+   * Get the timeline of a park for one local day (default: today)
+   */
+  async findParkTimeline(parkId: number, date?: string): Promise<ParkTimeline> {
+    const park = await this.parkRepository.findOne({
+      where: { id: parkId },
+      select: ['id', 'name', 'country', 'timezone'],
+    });
+
+    if (!park) {
+      throw new NotFoundException(`Park with ID ${parkId} not found`);
+    }
+
+    const today = this.parkUtils.getLocalDate(park.timezone);
+    const localDate = date ?? today;
+
+    const cacheKey = `park_timeline_${parkId}_${localDate}`;
+    const cached = await this.cacheService.getAsync<ParkTimeline>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const rides: RideType[] = (
+      await this.rideRepository.find({
+        where: { park: { id: parkId }, isActive: true },
+        select: ['id', 'name', 'isActive'],
+      })
+    ).map((ride) => ({
+      id: ride.id,
+      name: ride.name,
+      isActive: ride.isActive,
+    }));
+
+    const samples: Array<{
+      rideId: number;
+      waitTime: number | null;
+      isOpen: boolean;
+      suspect: boolean;
+      lastUpdated: Date;
+    }> = await this.rideRepository.query(
+      `
+      SELECT qt."rideId", qt."waitTime", qt."isOpen", qt.suspect, qt."lastUpdated"
+      FROM queue_time qt
+      INNER JOIN ride r ON r.id = qt."rideId"
+      WHERE r."parkId" = $1
+        AND r."isActive" = true
+        AND qt."lastUpdated" >= ($2::date::timestamp AT TIME ZONE $3)
+        AND qt."lastUpdated" < (($2::date + 1)::timestamp AT TIME ZONE $3)
+      ORDER BY qt."lastUpdated" ASC, qt."recordedAt" ASC
+      `,
+      [parkId, localDate, park.timezone],
+    );
+
+    const data: ParkTimelineEntry[] = [];
+
+    if (samples.length > 0) {
+      const intervalMs = this.INTERVAL_MINUTES * 60 * 1000;
+      const maxSampleAgeMs = this.MAX_SAMPLE_AGE_MINUTES * 60 * 1000;
+      // Rides sampled on this day form the denominator of the operating percentage
+      const totalRideCount = new Set(samples.map((s) => s.rideId)).size;
+
+      const firstSlot =
+        Math.floor(new Date(samples[0].lastUpdated).getTime() / intervalMs) *
+        intervalMs;
+      const lastSampleAt = new Date(
+        samples[samples.length - 1].lastUpdated,
+      ).getTime();
+
+      // Run-length compression (see QueueTimeRetentionService) keeps only the first and
+      // last sample of an unchanged run, so a sample repeated by the ride's next sample
+      // describes the ride until then regardless of its age
+      const repeatedByNext = new Array<boolean>(samples.length).fill(false);
+      const nextByRide = new Map<number, (typeof samples)[number]>();
+      for (let i = samples.length - 1; i >= 0; i--) {
+        const sample = samples[i];
+        const next = nextByRide.get(sample.rideId);
+        repeatedByNext[i] =
+          !!next &&
+          next.waitTime === sample.waitTime &&
+          next.isOpen === sample.isOpen &&
+          next.suspect === sample.suspect;
+        nextByRide.set(sample.rideId, sample);
+      }
+
+      const latestByRide = new Map<number, QueueTimeType>();
+      const repeatedRideIds = new Set<number>();
+      let sampleIndex = 0;
+
+      for (let slot = firstSlot; slot <= lastSampleAt; slot += intervalMs) {
+        const slotEnd = slot + intervalMs;
+
+        while (
+          sampleIndex < samples.length &&
+          new Date(samples[sampleIndex].lastUpdated).getTime() < slotEnd
+        ) {
+          const sample = samples[sampleIndex];
+          if (repeatedByNext[sampleIndex++]) {
+            repeatedRideIds.add(sample.rideId);
+          } else {
+            repeatedRideIds.delete(sample.rideId);
+          }
+          latestByRide.set(sample.rideId, {
+            waitTime: sample.waitTime,
+            isOpen: sample.isOpen,
+            suspect: sample.suspect,
+            lastUpdated: new Date(sample.lastUpdated),
+          });
+        }
+
+        const current = new Map<number, QueueTimeType>();
+        for (const [rideId, queueTime] of latestByRide) {
+          if (
+            repeatedRideIds.has(rideId) ||
+            slotEnd - queueTime.lastUpdated.getTime() <= maxSampleAgeMs
+          ) {
+            current.set(rideId, queueTime);
+          }
+        }
+
+        const openQueueTimes = [...current.values()].filter((qt) => qt.isOpen);
+        const waitTimes = openQueueTimes
+          .filter((qt) => !qt.suspect && qt.waitTime !== null)
+          .map((qt) => qt.waitTime);
+
+        const status = this.parkUtils.calculateOperatingStatus(
+          totalRideCount,
+          openQueueTimes.length,
+        );
+
+        let crowdLevel: ParkTimelineEntry['crowdLevel'] = null;
+        if (openQueueTimes.length > 0) {
+          const level =
+            await this.crowdLevelService.calculateCrowdLevelForRides(
+              rides,
+              current,
+              new Date(slot),
+            );
+          crowdLevel = {
+            level: level.level,
+            label: level.label,
+            confidence: level.confidence,
+          };
+        }
+
+        data.push({
+          timestamp: new Date(slot),
+          averageWaitTime:
+            waitTimes.length > 0
+              ? Math.round(
+                  waitTimes.reduce((sum, wt) => sum + wt, 0) / waitTimes.length,
+                )
+              : null,
+          openRideCount: status.openRideCount,
+          totalRideCount: status.totalRideCount,
+          operatingPercentage: status.operatingPercentage,
+          isOpen: status.isOpen,
+          crowdLevel,
+        });
+      }
+    }
+
+    const result: ParkTimeline = {
+      parkId: park.id,
+      parkName: park.name,
+      timezone: park.timezone,
+      date: localDate,
+      intervalMinutes: this.INTERVAL_MINUTES,
+      holidays: this.holidaysService
+        .getParkHolidayFlags(park, localDate, localDate)
+        .get(localDate) ?? {
+        isPublicHoliday: null,
+        isSchoolHoliday: null,
+        holidays: [],
+        uncoveredRegions: [],
+      },
+      data,
+    };
+
+    await this.cacheService.setAsync(
+      cacheKey,
+      result,
+      localDate >= today ? this.TODAY_CACHE_TTL : this.PAST_CACHE_TTL,
+    );
+
+    return result;
+  }
+}
@@ -11,8 +11,26 @@ import {
 import { ConfigService } from '@nestjs/config';
 import { ParksService } from './parks.service.js';
 import { WeatherService } from './weather.service.js';
-import { ParkQueryDto } from './parks.dto.js';
+import {
+  ParkDowntimeQueryDto,
+  ParkTimelineQueryDto,
+  ParkCrowdCalendarQueryDto,
+  ParkHoursQueryDto,
+  ParkQueryDto,
+  RideEventQueryDto,
+} from './parks.dto.js';
+import { RideEventsService } from './ride-events.service.js';
+import { ParkOperatingHoursService } from './park-operating-hours.service.js';
+import { ParkTimelineService } from './park-timeline.service.js';
+import { CrowdCalendarService } from './crowd-calendar.service.js';
 import { RidesService } from '../rides/rides.service.js';
+import { RideDowntimeService } from '../rides/ride-downtime.service.js';
+import { RideHistoryService } from '../rides/ride-history.service.js';
+import { WaitTimeHeatmapService } from '../rides/wait-time-heatmap.service.js';
+import {
+  RideHistoryQueryDto,
+  WaitTimeHeatmapQueryDto,
+} from '../rides/rides.dto.js';
 import { HierarchicalUrlService } from '../utils/hierarchical-url.service.js';
 import { HierarchicalUrlInjectorService } from '../utils/hierarchical-url-injector.service.js';
 import { CacheService } from '../utils/cache.service.js';
@@ -27,6 +45,13 @@ export class ParksController {
     private readonly parksService: ParksService,
     private readonly weatherService: WeatherService,
     private readonly ridesService: RidesService,
+    private readonly rideEventsService: RideEventsService,
+    private readonly rideDowntimeService: RideDowntimeService,
+    private readonly rideHistoryService: RideHistoryService,
+    private readonly operatingHours: ParkOperatingHoursService,
+    private readonly parkTimeline: ParkTimelineService,
+    private readonly crowdCalendar: CrowdCalendarService,
+    private readonly heatmapService: WaitTimeHeatmapService,
     private readonly configService: ConfigService,
     private readonly urlInjector: HierarchicalUrlInjectorService,
     private readonly cacheService: CacheService,
@@ -119,6 +144,74 @@ export class ParksController {
     return parksWithUrls;
   }
 
+  // Park ID sub-routes - registered before /parks/:continent/:country so they are not shadowed by it
+
+  /**
+   * Get ride lifecycle events (added, retired, reactivated) for a park
+   */
+  @Get(':id/ride-events')
+  async findParkRideEvents(
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: RideEventQueryDto,
+  ) {
+    return this.rideEventsService.findParkEvents(id, query);
+  }
+
+  /**
+   * Get ride breakdowns of a park on one local day, grouped by ride
+   */
+  @Get(':id/downtime')
+  async findParkDowntime(
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: ParkDowntimeQueryDto,
+  ) {
+    return this.rideDowntimeService.findParkDowntimes(id, query.date);
+  }
+
+  /**
+   * Get inferred operating hours of a park per local day
+   */
+  @Get(':id/hours')
+  async findParkHours(
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: ParkHoursQueryDto,
+  ) {
+    return this.operatingHours.findParkHours(id, query);
+  }
+
+  /**
+   * Get the park-wide wait time, operating and crowd level series of one local day
+   */
+  @Get(':id/timeline')
+  async findParkTimeline(
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: ParkTimelineQueryDto,
+  ) {
+    return this.parkTimeline.findParkTimeline(id, query.date);
+  }
+
+  /**
+   * Get the typical wait across a park's rides per local day of week and hour
+   */
+  @Get(':id/heatmap')
+  async findParkHeatmap(
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: WaitTimeHeatmapQueryDto,
+  ) {
+    return this.heatmapService.findParkHeatmap(id, query);
+  }
+
+  /**
+   * Get the predicted crowd level of upcoming local dates
+   */
+  @Get(':id/crowd-calendar')
+  async findCrowdCalendar(
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: ParkCrowdCalendarQueryDto,
+  ) {
+    return this.crowdCalendar.findCrowdCalendar(id, query);
+  }
+
   /**
    * Get all parks in a specific country: /parks/continent/country
    */
@@ -218,6 +311,10 @@ export class ParksController {
       includeCrowdLevel,
       includeWeather,
     );
+    Object.assign(
+      parkDetails,
+      await this.parksService.getParkInsights(matchingPark),
+    );
 
     // Add hierarchical URL to the response using the injector with URL context as fallback
     const urlContext = {
@@ -284,6 +381,43 @@ export class ParksController {
     return result;
   }
 
+  /**
+   * Get ride wait time history by hierarchical route: /parks/continent/country/park/ride/history
+   */
+  @Get(':continent/:country/:park/:ride/history')
+  async findRideHistoryByHierarchy(
+    @Param('continent') continentSlug: string,
+    @Param('country') countrySlug: string,
+    @Param('park') parkSlug: string,
+    @Param('ride') rideSlug: string,
+    @Query() query: RideHistoryQueryDto,
+  ): Promise<any> {
+    const matchingPark = await this.parksService.findParkByHierarchy(
+      continentSlug,
+      countrySlug,
+      parkSlug,
+    );
+
+    if (!matchingPark) {
+      throw new NotFoundException(
+        `Park not found for path: ${continentSlug}/${countrySlug}/${parkSlug}`,
+      );
+    }
+
+    const matchingRide = await this.parksService.findRideByParkAndName(
+      matchingPark.id,
+      rideSlug,
+    );
+
+    if (!matchingRide) {
+      throw new NotFoundException(
+        `Ride not found for path: ${continentSlug}/${countrySlug}/${parkSlug}/${rideSlug}`,
+      );
+    }
+
+    return this.rideHistoryService.findHistory(matchingRide.id, query);
+  }
+
   // Specific ID routes
   @Get(':id/rides')
   async findParkRides(@Param('id', ParseIntPipe) id: number): Promise<{
@@ -5,8 +5,12 @@ import {
   Min,
   Max,
   IsBoolean,
+  IsEnum,
+  IsDateString,
+  Matches,
 } from 'class-validator';
 import { Type, Transform } from 'class-transformer';
+import { RideEventType } from './ride-event.entity.js';
 
 export class ParkQueryDto {
   @IsOptional()
@@ -70,3 +74,98 @@ export class ParkQueryDto {
   @IsBoolean()
   includeWeather?: boolean; // Whether to include weather data (default: true)
 }
+
+export class RideEventQueryDto {
+  @IsOptional()
+  @IsEnum(RideEventType)
+  type?: RideEventType;
+
+  @IsOptional()
+  @IsDateString()
+  from?: string; // ISO date or timestamp, inclusive
+
+  @IsOptional()
+  @IsDateString()
+  to?: string; // ISO date or timestamp, inclusive
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  limit?: number = 50;
+}
+
+export class ParkDowntimeQueryDto {
+  @IsOptional()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, {
+    message: 'date must be a local date formatted as YYYY-MM-DD',
+  })
+  @IsDateString(
+    { strict: true },
+    { message: 'date must be an existing calendar date' },
+  )
+  date?: string; // Defaults to today in the park's time zone
+}
+
+export class ParkTimelineQueryDto {
+  @IsOptional()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, {
+    message: 'date must be a local date formatted as YYYY-MM-DD',
+  })
+  @IsDateString(
+    { strict: true },
+    { message: 'date must be an existing calendar date' },
+  )
+  date?: string; // Defaults to today in the park's time zone
+}
+
+export class ParkCrowdCalendarQueryDto {
+  @IsOptional()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, {
+    message: 'from must be a local date formatted as YYYY-MM-DD',
+  })
+  @IsDateString(
+    { strict: true },
+    { message: 'from must be an existing calendar date' },
+  )
+  from?: string; // Defaults to today in the park's time zone
+
+  @IsOptional()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, {
+    message: 'to must be a local date formatted as YYYY-MM-DD',
+  })
+  @IsDateString(
+    { strict: true },
+    { message: 'to must be an existing calendar date' },
+  )
+  to?: string; // Defaults to 29 days after `from`
+}
+
+export class ParkHoursQueryDto {
+  @IsOptional()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, {
+    message: 'from must be a local date formatted as YYYY-MM-DD',
+  })
+  @IsDateString(
+    { strict: true },
+    { message: 'from must be an existing calendar date' },
+  )
+  from?: string; // Defaults to 13 days before `to`
+
+  @IsOptional()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, {
+    message: 'to must be a local date formatted as YYYY-MM-DD',
+  })
+  @IsDateString(
+    { strict: true },
+    { message: 'to must be an existing calendar date' },
+  )
+  to?: string; // Defaults to today in the park's time zone
+}
@@ -6,6 +6,9 @@ import { Park } from './park.entity';
 import { ThemeArea } from './theme-area.entity';
 import { Ride } from './ride.entity';
 import { QueueTime } from './queue-time.entity';
+import { QueueTimeDaily, QueueTimeHourly } from './queue-time-rollup.entity.js';
+import { RideEvent } from './ride-event.entity.js';
+import { ParkOperatingDay } from './park-operating-day.entity.js';
 import { WeatherData } from './weather-cache.entity.js';
 import { ParksController } from './parks.controller.js';
 import { ParksService } from './parks.service';
@@ -13,11 +16,16 @@ import { CrowdLevelService } from './crowd-level.service.js';
 import { WeatherService } from './weather.service.js';
 import { DatabaseWeatherCacheService } from './database-weather-cache.service.js';
 import { WeatherBackgroundService } from './weather-background.service.js';
+import { RideEventsService } from './ride-events.service.js';
+import { ParkCircuitBreakerService } from './park-circuit-breaker.service.js';
+import { ParkOperatingHoursService } from './park-operating-hours.service.js';
+import { ParkTimelineService } from './park-timeline.service.js';
+import { CrowdCalendarService } from './crowd-calendar.service.js';
 import { WEATHER_CACHE_SERVICE } from './weather-cache.interface.js';
-import { QueueTimesParserService } from '../queue-times-parser/queue-times-parser.service';
 import { RidesService } from '../rides/rides.service';
 import { RidesModule } from '../rides/rides.module';
 import { UtilsModule } from '../utils/utils.module';
+import { HolidaysModule } from '../holidays/holidays.module.js';
 
 @Module({
   imports: [
@@ -27,20 +35,29 @@ import { UtilsModule } from '../utils/utils.module';
       ThemeArea,
       Ride,
       QueueTime,
+      QueueTimeHourly,
+      QueueTimeDaily,
+      RideEvent,
+      ParkOperatingDay,
       WeatherData,
     ]),
     ScheduleModule.forRoot(),
     UtilsModule,
     RidesModule,
+    HolidaysModule,
   ],
   controllers: [ParksController],
   providers: [
     ParksService,
-    QueueTimesParserService,
     CrowdLevelService,
     WeatherService,
     DatabaseWeatherCacheService,
     WeatherBackgroundService,
+    RideEventsService,
+    ParkCircuitBreakerService,
+    ParkOperatingHoursService,
+    ParkTimelineService,
+    CrowdCalendarService,
     {
       provide: WEATHER_CACHE_SERVICE,
       useClass: DatabaseWeatherCacheService,
@@ -51,6 +68,9 @@ import { UtilsModule } from '../utils/utils.module';
     ParksService,
     CrowdLevelService,
     WeatherBackgroundService,
+    RideEventsService,
+    ParkCircuitBreakerService,
+    ParkOperatingHoursService,
   ],
 })
 export class ParksModule {}
@@ -8,6 +8,28 @@ import { WeatherService } from './weather.service.js';
 import { ParkUtilsService } from '../utils/park-utils.service.js';
 import { CacheService } from '../utils/cache.service.js';
 import { RidesService } from '../rides/rides.service.js';
+import {
+  ParkReliabilitySummary,
+  RideReliabilityService,
+} from '../rides/ride-reliability.service.js';
+import { RideForecastService } from '../rides/ride-forecast.service.js';
+import {
+  ParkCircuitBreakerService,
+  ParkDataAvailability,
+} from './park-circuit-breaker.service.js';
+import {
+  ParkOperatingHoursService,
+  TypicalOperatingHours,
+} from './park-operating-hours.service.js';
+
+/**
+ * Park details beyond the current wait times, shared by the park detail routes
+ */
+export interface ParkInsights {
+  dataAvailability: ParkDataAvailability; // Why a park may have no fresh wait times
+  reliability: Record<string, ParkReliabilitySummary | null>;
+  operatingHours: TypicalOperatingHours;
+}
 
 @Injectable()
 export class ParksService {
@@ -21,6 +43,10 @@ export class ParksService {
     private readonly weatherService: WeatherService,
     private readonly cacheService: CacheService,
     private readonly ridesService: RidesService,
+    private readonly circuitBreaker: ParkCircuitBreakerService,
+    private readonly rideReliability: RideReliabilityService,
+    private readonly operatingHours: ParkOperatingHoursService,
+    private readonly rideForecast: RideForecastService,
   ) {}
 
   /**
@@ -866,11 +892,29 @@ export class ParksService {
       includeWeather,
     );
 
+    Object.assign(result, await this.getParkInsights(park));
+
     // Cache the result using default TTL
     this.cacheService.set(cacheKey, result);
     return result;
   }
 
+  /**
+   * Data availability, ride reliability and typical operating hours of a park
+   */
+  async getParkInsights(
+    park: Pick<Park, 'id' | 'timezone'>,
+  ): Promise<ParkInsights> {
+    return {
+      dataAvailability: await this.circuitBreaker.getDataAvailability(park.id),
+      reliability: await this.rideReliability.findForPark(park.id),
+      operatingHours: await this.operatingHours.getTypicalHours(
+        park.id,
+        park.timezone,
+      ),
+    };
+  }
+
   /**
    * Get a park by queueTimesId
    */
@@ -940,6 +984,15 @@ export class ParksService {
       });
     }
 
+    const activeRideIds = allRides
+      .filter((ride) => ride.isActive)
+      .map((ride) => ride.id);
+    const forecasts = await this.rideForecast.forecastRides(
+      activeRideIds,
+      park.timezone,
+      queueTimeMap,
+    );
+
     // Get all rides from theme areas
     const themeAreaRides = park.themeAreas.flatMap((themeArea) =>
       themeArea.rides.map((ride) => ({
@@ -951,6 +1004,7 @@ export class ParksService {
           name: themeArea.name,
         },
         currentQueueTime: queueTimeMap.get(ride.id) || null,
+        forecast: forecasts.get(ride.id) ?? [],
       })),
     );
 
@@ -961,6 +1015,7 @@ export class ParksService {
       isActive: ride.isActive,
       themeArea: null, // Direct park rides don't belong to a theme area
       currentQueueTime: queueTimeMap.get(ride.id) || null,
+      forecast: forecasts.get(ride.id) ?? [],
     }));
 
     // Combine all rides, avoiding duplicates
@@ -1493,8 +1548,11 @@ export class ParksService {
   } {
     const threshold = openThreshold ?? this.getDefaultOpenThreshold();
 
-    const totalRideCount = rides.length;
-    const openRideCount = rides.filter((ride) => {
+    // Retired rides no longer count towards the park's operating percentage
+    const activeRides = rides.filter((ride) => ride.isActive !== false);
+
+    const totalRideCount = activeRides.length;
+    const openRideCount = activeRides.filter((ride) => {
       if (ride.queueTimes && ride.queueTimes.length > 0) {
         return ride.queueTimes[0].isOpen;
       }
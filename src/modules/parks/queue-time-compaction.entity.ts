@@ -0,0 +1,33 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { Park } from './park.entity.js';
+
+/**
+ * Progress of the queue time retention policy per park.
+ * Raw samples before compactedBefore were deleted or run-length compressed, so the
+ * rollups of those buckets are final and never recomputed.
+ */
+@Entity()
+export class QueueTimeCompaction {
+  @PrimaryColumn()
+  parkId: number;
+
+  @ManyToOne(() => Park, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'parkId' })
+  park: Park;
+
+  @Column({ type: 'timestamptz' })
+  compactedBefore: Date; // Local midnight of the park
+
+  @Column({ type: 'timestamptz', nullable: true })
+  deletedBefore: Date | null; // Raw samples before this were deleted
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updatedAt: Date;
+}
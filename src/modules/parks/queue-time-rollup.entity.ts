@@ -0,0 +1,78 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Ride } from './ride.entity.js';
+
+/**
+ * Queue time statistics of a ride in one time bucket, precomputed from queue_time.
+ * Wait statistics only use open, non-suspect samples.
+ */
+export abstract class QueueTimeRollup {
+  @PrimaryColumn()
+  rideId: number;
+
+  @ManyToOne(() => Ride, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'rideId' })
+  ride: Ride;
+
+  @Column('int')
+  sampleCount: number;
+
+  @Column('int')
+  openSampleCount: number;
+
+  @Column('int')
+  waitSampleCount: number; // Open, non-suspect samples
+
+  @Column('int')
+  nonZeroWaitCount: number; // Open, non-suspect samples with a wait above 0
+
+  @Column({ type: 'int', nullable: true })
+  minWait: number | null;
+
+  @Column({ type: 'float', nullable: true })
+  avgWait: number | null;
+
+  @Column({ type: 'int', nullable: true })
+  maxWait: number | null;
+
+  @Column({ type: 'float', nullable: true })
+  p50Wait: number | null;
+
+  @Column({ type: 'float', nullable: true })
+  p90Wait: number | null;
+
+  @Column({ type: 'float', nullable: true })
+  p95Wait: number | null;
+
+  // Minutes from each open sample to the next one, capped per sample
+  @Column('int')
+  openMinutes: number;
+
+  @Column({ type: 'timestamptz' })
+  refreshedAt: Date;
+}
+
+/**
+ * Rollup per ride and hour of the park's local time
+ */
+@Entity()
+@Index('IDX_queue_time_hourly_refreshed_at', ['refreshedAt']) // Watermark of incremental refreshes
+export class QueueTimeHourly extends QueueTimeRollup {
+  @PrimaryColumn({ type: 'timestamptz' })
+  hour: Date; // Start of the local hour
+}
+
+/**
+ * Rollup per ride and local date of the park
+ */
+@Entity()
+export class QueueTimeDaily extends QueueTimeRollup {
+  @PrimaryColumn({ type: 'date' })
+  date: string;
+}
@@ -5,13 +5,25 @@ import {
   ManyToOne,
   CreateDateColumn,
   Index,
+  Unique,
 } from 'typeorm';
 import { Ride } from './ride.entity.js';
 
-@Entity()
-@Index(['ride', 'lastUpdated']) // Optimizes the duplicate check query
-@Index(['ride', 'lastUpdated', 'waitTime']) // Additional index for full duplicate prevention
-@Index(['ride', 'lastUpdated', 'recordedAt']) // Optimizes fetching latest queue time for a ride
+export enum WaitTimeAnomaly {
+  IMPLAUSIBLE = 'implausible', // Above the absolute maximum wait time
+  OUTLIER = 'outlier', // Far above the ride's recent history
+  STALE = 'stale', // Unchanged for hours while the ride is open
+}
+
+// Partitioned by month of lastUpdated, see the PartitionQueueTime migration and QueueTimePartitionService
+@Entity({ synchronize: false })
+@Unique('UQ_queue_time_ride_last_updated', ['ride', 'lastUpdated']) // One sample per ride and upstream timestamp
+@Index('IDX_queue_time_ride_last_updated_recorded_at', [
+  'ride',
+  'lastUpdated',
+  'recordedAt',
+]) // Optimizes fetching latest queue time for a ride
+@Index('IDX_queue_time_recorded_at', ['recordedAt']) // Finds samples recorded since the last rollup refresh
 export class QueueTime {
   @PrimaryGeneratedColumn()
   id: number;
@@ -32,8 +44,15 @@ export class QueueTime {
   @Column({ default: true })
   isOpen: boolean;
 
-  @Column({ type: 'timestamptz', nullable: true })
-  lastUpdated: Date; // Timestamp from the API
+  @Column({ type: 'timestamptz' })
+  lastUpdated: Date; // Timestamp from the API, the partition key
+
+  // Flagged by anomaly detection at ingestion, kept but excluded from calculations
+  @Column({ default: false })
+  suspect: boolean;
+
+  @Column({ type: 'enum', enum: WaitTimeAnomaly, nullable: true })
+  anomaly: WaitTimeAnomaly | null;
 
   @CreateDateColumn({ type: 'timestamptz' })
   recordedAt: Date; // Timestamp when we recorded the data
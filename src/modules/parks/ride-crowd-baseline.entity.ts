@@ -0,0 +1,38 @@
+import { Entity, PrimaryColumn, Column, ManyToOne, JoinColumn } from 'typeorm';
+import { Ride } from './ride.entity.js';
+
+// Rolling window and percentile of the crowd level baseline
+export const CROWD_BASELINE_WINDOW_DAYS = 730;
+export const CROWD_BASELINE_PERCENTILE = 0.95;
+
+/**
+ * Crowd level baseline of a ride, precomputed from its hourly rollups
+ */
+@Entity()
+export class RideCrowdBaseline {
+  @PrimaryColumn()
+  rideId: number;
+
+  @ManyToOne(() => Ride, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'rideId' })
+  ride: Ride;
+
+  // Percentile of the ride's hourly average waits, null without any wait above 0
+  @Column({ type: 'float', nullable: true })
+  p95Wait: number | null;
+
+  @Column('int')
+  hourCount: number; // Hours with a wait above 0
+
+  @Column('int')
+  sampleCount: number; // Samples with a wait above 0
+
+  @Column({ type: 'timestamptz', nullable: true })
+  firstHour: Date | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  lastHour: Date | null;
+
+  @Column({ type: 'timestamptz' })
+  refreshedAt: Date;
+}
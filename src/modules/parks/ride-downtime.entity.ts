@@ -0,0 +1,49 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Index,
+  Unique,
+} from 'typeorm';
+import { Ride } from './ride.entity.js';
+import { Park } from './park.entity.js';
+
+/**
+ * A ride closing and reopening within the same operating day, derived from queue time samples
+ */
+@Entity()
+@Unique('UQ_ride_downtime_ride_started_at', ['rideId', 'startedAt'])
+@Index('IDX_ride_downtime_park_date', ['parkId', 'date'])
+export class RideDowntime {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => Ride, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'rideId' })
+  ride: Ride;
+
+  @Column()
+  rideId: number;
+
+  @ManyToOne(() => Park, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'parkId' })
+  park: Park;
+
+  @Column()
+  parkId: number;
+
+  // Operating day in the park's local time zone (YYYY-MM-DD)
+  @Column({ type: 'date' })
+  date: string;
+
+  @Column({ type: 'timestamptz' })
+  startedAt: Date; // First closed sample
+
+  @Column({ type: 'timestamptz' })
+  endedAt: Date; // First open sample after the closure
+
+  @Column('int')
+  durationMinutes: number;
+}
@@ -0,0 +1,44 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { Ride } from './ride.entity.js';
+import { Park } from './park.entity.js';
+
+export enum RideEventType {
+  ADDED = 'ride-added',
+  RETIRED = 'ride-retired',
+  REACTIVATED = 'ride-reactivated',
+}
+
+@Entity()
+@Index('IDX_ride_event_park_occurred_at', ['parkId', 'occurredAt'])
+export class RideEvent {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => Ride, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'rideId' })
+  ride: Ride;
+
+  @Column()
+  rideId: number;
+
+  @ManyToOne(() => Park, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'parkId' })
+  park: Park;
+
+  @Column()
+  parkId: number;
+
+  @Column({ type: 'enum', enum: RideEventType })
+  type: RideEventType;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  occurredAt: Date;
+}
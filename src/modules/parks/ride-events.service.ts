@@ -0,0 +1,100 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { RideEvent, RideEventType } from './ride-event.entity.js';
+import { Park } from './park.entity.js';
+import { RideEventQueryDto } from './parks.dto.js';
+
+/**
+ * Records and queries ride lifecycle events (added, retired, reactivated)
+ */
+@Injectable()
+export class RideEventsService {
+  constructor(
+    @InjectRepository(RideEvent)
+    private readonly rideEventRepository: Repository<RideEvent>,
+    @InjectRepository(Park)
+    private readonly parkRepository: Repository<Park>,
+  ) {}
+
+  /**
+   * Store lifecycle events for rides of a park
+   */
+  async recordEvents(
+    parkId: number,
+    rideIds: number[],
+    type: RideEventType,
+    occurredAt: Date = new Date(),
+  ): Promise<void> {
+    if (rideIds.length === 0) return;
+
+    await this.rideEventRepository.insert(
+      rideIds.map((rideId) => ({ rideId, parkId, type, occurredAt })),
+    );
+  }
+
+  /**
+   * Get lifecycle events for a park, newest first
+   */
+  async findParkEvents(parkId: number, query: RideEventQueryDto = {}) {
+    const { type, from, to, page = 1, limit = 50 } = query;
+
+    const park = await this.parkRepository.findOne({
+      where: { id: parkId },
+      select: ['id', 'name'],
+    });
+
+    if (!park) {
+      throw new NotFoundException(`Park with ID ${parkId} not found`);
+    }
+
+    const queryBuilder = this.rideEventRepository
+      .createQueryBuilder('event')
+      .leftJoin('event.ride', 'ride')
+      .addSelect(['ride.id', 'ride.name', 'ride.isActive'])
+      .where('event.parkId = :parkId', { parkId });
+
+    if (type) {
+      queryBuilder.andWhere('event.type = :type', { type });
+    }
+    if (from) {
+      queryBuilder.andWhere('event.occurredAt >= :from', {
+        from: new Date(from),
+      });
+    }
+    if (to) {
+      queryBuilder.andWhere('event.occurredAt <= :to', { to: new Date(to) });
+    }
+
+    const [events, totalCount] = await queryBuilder
+      .orderBy('event.occurredAt', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return {
+      parkId: park.id,
+      parkName: park.name,
+      data: events.map((event) => ({
+        id: event.id,
+        type: event.type,
+        occurredAt: event.occurredAt,
+        ride: event.ride
+          ? {
+              id: event.ride.id,
+              name: event.ride.name,
+              isActive: event.ride.isActive,
+            }
+          : null,
+      })),
+      pagination: {
+        page,
+        limit,
+        totalCount,
+        totalPages: Math.ceil(totalCount / limit),
+        hasNext: page * limit < totalCount,
+        hasPrev: page > 1,
+      },
+    };
+  }
+}
@@ -0,0 +1,55 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Ride } from './ride.entity.js';
+
+// Supported reliability windows in days
+export const RELIABILITY_WINDOWS = [7, 30, 365] as const;
+export type ReliabilityWindow = (typeof RELIABILITY_WINDOWS)[number];
+
+/**
+ * Ride reliability over a rolling window, precomputed from queue times and downtimes
+ */
+@Entity()
+@Index('IDX_ride_reliability_window_uptime', ['windowDays', 'uptimePercentage'])
+export class RideReliability {
+  @PrimaryColumn()
+  rideId: number;
+
+  @PrimaryColumn('int')
+  windowDays: number;
+
+  @ManyToOne(() => Ride, (ride: Ride) => ride.reliabilities, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'rideId' })
+  ride: Ride;
+
+  // Share of the park's operating time the ride was open
+  @Column('float')
+  uptimePercentage: number;
+
+  // Minutes between the park's first and last open ride per day, summed over the window
+  @Column('int')
+  operatingMinutes: number;
+
+  @Column('int')
+  sampleCount: number;
+
+  @Column('int')
+  downtimes: number;
+
+  @Column({ type: 'int', nullable: true })
+  meanTimeBetweenBreakdownsMinutes: number | null; // Null without breakdowns
+
+  @Column({ type: 'int', nullable: true })
+  averageDowntimeMinutes: number | null;
+
+  @Column({ type: 'timestamptz' })
+  computedAt: Date;
+}
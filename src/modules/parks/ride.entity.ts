@@ -10,6 +10,7 @@ import {
 import { Park } from './park.entity.js';
 import { ThemeArea } from './theme-area.entity.js';
 import { QueueTime } from './queue-time.entity.js';
+import { RideReliability } from './ride-reliability.entity.js';
 
 @Entity()
 @Unique(['queueTimesId', 'park']) // Unique constraint on queueTimesId + park combination
@@ -29,6 +30,9 @@ export class Ride {
   @Column({ default: true })
   isActive: boolean; // Whether the attraction still exists/operates
 
+  @Column({ type: 'timestamptz', default: () => 'CURRENT_TIMESTAMP' })
+  lastSeenAt: Date; // Last time the ride was present in the upstream feed
+
   @ManyToOne(() => Park, (park: Park) => park.rides, { onDelete: 'CASCADE' })
   park: Park;
 
@@ -42,4 +46,10 @@ export class Ride {
     lazy: true,
   })
   queueTimes: Promise<QueueTime[]>;
+
+  @OneToMany(
+    () => RideReliability,
+    (reliability: RideReliability) => reliability.ride,
+  )
+  reliabilities: RideReliability[];
 }
@@ -1,25 +1,39 @@
 import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { Cron } from '@nestjs/schedule';
+import { ConfigService } from '@nestjs/config';
 import { WeatherService } from './weather.service.js';
 import { DatabaseWeatherCacheService } from './database-weather-cache.service.js';
 import { WeatherDataType } from './weather-cache.entity.js';
 import { ParksService } from './parks.service.js';
+import { DistributedLockService } from '../utils/distributed-lock.service.js';
 
 @Injectable()
 export class WeatherBackgroundService implements OnModuleInit {
   private readonly logger = new Logger(WeatherBackgroundService.name);
   private isRunning = false;
+  private readonly LEASE_NAME = 'weather:update';
+  private readonly LEASE_TTL_MS = 5 * 60 * 1000;
 
   constructor(
     private readonly weatherService: WeatherService,
     private readonly databaseCacheService: DatabaseWeatherCacheService,
     private readonly parksService: ParksService,
+    private readonly lockService: DistributedLockService,
+    private readonly configService: ConfigService,
   ) {}
 
   /**
    * Initialize weather data when the module starts
    */
   async onModuleInit(): Promise<void> {
+    // CLI commands boot the application without background jobs
+    if (
+      this.configService.get<string>('BACKGROUND_JOBS_ENABLED', 'true') ===
+      'false'
+    ) {
+      return;
+    }
+
     this.logger.log(
       'Weather background service initialized - starting initial weather update...',
     );
@@ -32,6 +46,7 @@ export class WeatherBackgroundService implements OnModuleInit {
 
   /**
    * Run current weather and forecast updates every 2 hours
+   * on the instance holding the weather update lease
    */
   @Cron('0 */2 * * *')
   async updateWeatherData(): Promise<void> {
@@ -40,6 +55,17 @@ export class WeatherBackgroundService implements OnModuleInit {
       return;
     }
 
+    const ran = await this.lockService.runExclusive(
+      this.LEASE_NAME,
+      this.LEASE_TTL_MS,
+      () => this.performWeatherUpdate(),
+    );
+    if (!ran) {
+      this.logger.log('Weather update skipped - lease not acquired');
+    }
+  }
+
+  private async performWeatherUpdate(): Promise<void> {
     this.isRunning = true;
     const startTime = Date.now();
 
@@ -0,0 +1,76 @@
+import { Injectable } from '@nestjs/common';
+import {
+  QueueDataProvider,
+  UpstreamParkGroup,
+  UpstreamQueueTimes,
+} from './queue-data-provider.interface.js';
+
+/**
+ * Queue data provider serving previously archived payloads.
+ * Used by the replay command: parks are served from the loaded parks payload and
+ * each fetchQueueTimes call consumes the next archived payload of that park.
+ * Payloads keep their archived fetch time, which ingestion uses as the current time.
+ */
+@Injectable()
+export class ArchivedQueueDataProvider implements QueueDataProvider {
+  readonly name = 'archive';
+  private parks: UpstreamParkGroup[] = [];
+  private readonly pendingQueueTimes = new Map<
+    number,
+    Array<{ payload: UpstreamQueueTimes; fetchedAt: Date }>
+  >();
+  private readonly fetchedAt = new WeakMap<UpstreamQueueTimes, Date>();
+
+  loadParks(parks: UpstreamParkGroup[]): void {
+    this.parks = parks;
+  }
+
+  /**
+   * Queue a payload for a park - payloads must be queued oldest first
+   */
+  enqueueQueueTimes(
+    parkQueueTimesId: number,
+    payload: UpstreamQueueTimes,
+    fetchedAt: Date,
+  ) {
+    const queue = this.pendingQueueTimes.get(parkQueueTimesId) ?? [];
+    queue.push({ payload, fetchedAt });
+    this.pendingQueueTimes.set(parkQueueTimesId, queue);
+  }
+
+  /**
+   * queueTimesIds of parks with payloads left to replay
+   */
+  getPendingParkQueueTimesIds(): number[] {
+    return Array.from(this.pendingQueueTimes.keys());
+  }
+
+  discardQueueTimes(parkQueueTimesId: number): void {
+    this.pendingQueueTimes.delete(parkQueueTimesId);
+  }
+
+  fetchParks(): Promise<UpstreamParkGroup[]> {
+    return Promise.resolve(this.parks);
+  }
+
+  fetchQueueTimes(parkQueueTimesId: number): Promise<UpstreamQueueTimes> {
+    const queue = this.pendingQueueTimes.get(parkQueueTimesId);
+    const entry = queue?.shift();
+
+    if (queue && queue.length === 0) {
+      this.pendingQueueTimes.delete(parkQueueTimesId);
+    }
+    if (!entry) {
+      return Promise.reject(
+        new Error(`No archived payload left for park ${parkQueueTimesId}`),
+      );
+    }
+
+    this.fetchedAt.set(entry.payload, entry.fetchedAt);
+    return Promise.resolve(entry.payload);
+  }
+
+  getFetchedAt(payload: UpstreamQueueTimes): Date | undefined {
+    return this.fetchedAt.get(payload);
+  }
+}
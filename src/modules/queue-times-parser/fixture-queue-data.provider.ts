@@ -0,0 +1,52 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { readFile } from 'fs/promises';
+import { isAbsolute, join } from 'path';
+import {
+  QueueDataProvider,
+  UpstreamParkGroup,
+  UpstreamQueueTimes,
+} from './queue-data-provider.interface.js';
+
+/**
+ * Queue data provider reading JSON files from a local directory.
+ * The directory mirrors the queue-times.com layout:
+ *   <dir>/parks.json
+ *   <dir>/parks/<parkId>/queue_times.json
+ * Used to run the ingestion pipeline offline in development and CI.
+ */
+@Injectable()
+export class FixtureQueueDataProvider implements QueueDataProvider {
+  readonly name = 'fixture';
+  private readonly logger = new Logger(FixtureQueueDataProvider.name);
+  private readonly fixturesDir: string;
+
+  constructor(private readonly configService: ConfigService) {
+    const dir = this.configService.get<string>(
+      'QUEUE_DATA_FIXTURES_DIR',
+      'fixtures/queue-times',
+    );
+    this.fixturesDir = isAbsolute(dir) ? dir : join(process.cwd(), dir);
+  }
+
+  async fetchParks(): Promise<UpstreamParkGroup[]> {
+    const path = join(this.fixturesDir, 'parks.json');
+    this.logger.log(`Reading parks from ${path}`);
+    return this.readJson<UpstreamParkGroup[]>(path);
+  }
+
+  async fetchQueueTimes(parkQueueTimesId: number): Promise<UpstreamQueueTimes> {
+    const path = join(
+      this.fixturesDir,
+      'parks',
+      String(parkQueueTimesId),
+      'queue_times.json',
+    );
+    return this.readJson<UpstreamQueueTimes>(path);
+  }
+
+  private async readJson<T>(path: string): Promise<T> {
+    const content = await readFile(path, 'utf8');
+    return JSON.parse(content) as T;
+  }
+}
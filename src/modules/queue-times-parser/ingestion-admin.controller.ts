@@ -0,0 +1,39 @@
+import { Controller, Get, Param, ParseIntPipe, Query } from '@nestjs/common';
+import { IngestionRunService } from './ingestion-run.service.js';
+import { IngestionRunQueryDto, QuarantineQueryDto } from './ingestion.dto.js';
+import { ParkPollScheduleService } from './park-poll-schedule.service.js';
+import { PayloadQuarantineService } from './payload-quarantine.service.js';
+
+@Controller('admin/ingestion')
+export class IngestionAdminController {
+  constructor(
+    private readonly ingestionRunService: IngestionRunService,
+    private readonly pollScheduleService: ParkPollScheduleService,
+    private readonly payloadQuarantine: PayloadQuarantineService,
+  ) {}
+
+  @Get('runs')
+  async findRuns(@Query() query: IngestionRunQueryDto) {
+    return this.ingestionRunService.findAll(query);
+  }
+
+  @Get('runs/:id')
+  async findRun(@Param('id', ParseIntPipe) id: number) {
+    return this.ingestionRunService.findOne(id);
+  }
+
+  @Get('schedule')
+  async findSchedule() {
+    return this.pollScheduleService.findAll();
+  }
+
+  @Get('quarantine')
+  async findQuarantinedPayloads(@Query() query: QuarantineQueryDto) {
+    return this.payloadQuarantine.findAll(query);
+  }
+
+  @Get('quarantine/:id')
+  async findQuarantinedPayload(@Param('id', ParseIntPipe) id: number) {
+    return this.payloadQuarantine.findOne(id);
+  }
+}
@@ -0,0 +1,58 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { IngestionRun } from './ingestion-run.entity.js';
+import { Park } from '../parks/park.entity.js';
+
+@Entity()
+@Index('IDX_ingestion_park_result_run', ['run'])
+@Index('IDX_ingestion_park_result_park_success', ['parkId', 'success'])
+export class IngestionParkResult {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @ManyToOne(() => IngestionRun, (run: IngestionRun) => run.parkResults, {
+    onDelete: 'CASCADE',
+  })
+  run: IngestionRun;
+
+  @ManyToOne(() => Park, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'parkId' })
+  park: Park;
+
+  @Column()
+  parkId: number;
+
+  @Column({ default: true })
+  success: boolean;
+
+  @Column({ type: 'int', nullable: true })
+  httpStatus: number | null; // 200 on success, upstream status on HTTP errors, null for network errors
+
+  @Column({ type: 'int' })
+  durationMs: number;
+
+  @Column({ type: 'int', default: 0 })
+  newEntries: number;
+
+  @Column({ type: 'int', default: 0 })
+  skippedEntries: number;
+
+  @Column({ type: 'int', default: 0 })
+  openRides: number; // Rides reported open by upstream
+
+  @Column({ default: false })
+  malformed: boolean; // Payload rejected by schema validation and quarantined
+
+  @Column({ type: 'text', nullable: true })
+  errorMessage: string | null;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+}
@@ -0,0 +1,72 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  OneToMany,
+  Index,
+} from 'typeorm';
+import { IngestionParkResult } from './ingestion-park-result.entity.js';
+
+export enum IngestionTrigger {
+  INITIAL = 'initial',
+  SCHEDULED = 'scheduled',
+  MANUAL = 'manual',
+  REPLAY = 'replay', // Archived payloads replayed into a scratch database
+}
+
+export enum IngestionRunStatus {
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+}
+
+@Entity()
+@Index('IDX_ingestion_run_started_at', ['startedAt'])
+export class IngestionRun {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: 'enum', enum: IngestionTrigger })
+  trigger: IngestionTrigger;
+
+  @Column({
+    type: 'enum',
+    enum: IngestionRunStatus,
+    default: IngestionRunStatus.RUNNING,
+  })
+  status: IngestionRunStatus;
+
+  @Column({ type: 'varchar', length: 50 })
+  provider: string; // Name of the queue data provider used for this run
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  startedAt: Date;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  finishedAt: Date | null;
+
+  @Column({ type: 'int', default: 0 })
+  totalParks: number;
+
+  @Column({ type: 'int', default: 0 })
+  processedParks: number;
+
+  @Column({ type: 'int', default: 0 })
+  failedParks: number;
+
+  @Column({ type: 'int', default: 0 })
+  malformedParks: number; // Failed parks whose payload was quarantined
+
+  @Column({ type: 'int', default: 0 })
+  newEntries: number;
+
+  @Column({ type: 'int', default: 0 })
+  skippedEntries: number;
+
+  @Column({ type: 'text', nullable: true })
+  errorMessage: string | null; // Set when the run as a whole failed
+
+  @OneToMany(() => IngestionParkResult, (result) => result.run)
+  parkResults: IngestionParkResult[];
+}
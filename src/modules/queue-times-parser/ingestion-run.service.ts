@@ -0,0 +1,264 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { LessThan, Repository } from 'typeorm';
+import {
+  IngestionRun,
+  IngestionRunStatus,
+  IngestionTrigger,
+} from './ingestion-run.entity.js';
+import { IngestionParkResult } from './ingestion-park-result.entity.js';
+import { IngestionRunQueryDto, ParkIngestionOutcome } from './ingestion.dto.js';
+import { PayloadQuarantineService } from './payload-quarantine.service.js';
+
+/**
+ * Persists the ingestion run ledger and serves it to the admin endpoints.
+ * Ledger writes never throw - a failing ledger must not stop ingestion.
+ */
+@Injectable()
+export class IngestionRunService {
+  private readonly logger = new Logger(IngestionRunService.name);
+
+  constructor(
+    @InjectRepository(IngestionRun)
+    private readonly runRepository: Repository<IngestionRun>,
+    @InjectRepository(IngestionParkResult)
+    private readonly parkResultRepository: Repository<IngestionParkResult>,
+    private readonly payloadQuarantine: PayloadQuarantineService,
+  ) {}
+
+  /**
+   * Create a new run in RUNNING state
+   */
+  async startRun(
+    trigger: IngestionTrigger,
+    provider: string,
+    totalParks: number,
+  ): Promise<IngestionRun | null> {
+    try {
+      return await this.runRepository.save(
+        this.runRepository.create({ trigger, provider, totalParks }),
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Failed to start ingestion run: ${error instanceof Error ? error.message : error}`,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Store per-park outcomes of a run
+   */
+  async recordParkResults(
+    run: IngestionRun | null,
+    outcomes: ParkIngestionOutcome[],
+  ): Promise<void> {
+    if (!run || outcomes.length === 0) return;
+
+    try {
+      await this.parkResultRepository.insert(
+        outcomes.map((outcome) => ({
+          ...outcome,
+          run: { id: run.id } as IngestionRun,
+        })),
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Failed to record park results for ingestion run ${run.id}: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+  }
+
+  /**
+   * Mark a run as finished with its totals
+   */
+  async finishRun(
+    run: IngestionRun | null,
+    totals: {
+      processedParks: number;
+      failedParks: number;
+      malformedParks: number;
+      newEntries: number;
+      skippedEntries: number;
+    },
+    error?: Error,
+  ): Promise<void> {
+    if (!run) return;
+
+    try {
+      await this.runRepository.update(run.id, {
+        ...totals,
+        status: error
+          ? IngestionRunStatus.FAILED
+          : IngestionRunStatus.COMPLETED,
+        errorMessage: error ? error.message : null,
+        finishedAt: new Date(),
+      });
+    } catch (updateError) {
+      this.logger.warn(
+        `Failed to finish ingestion run ${run.id}: ${updateError instanceof Error ? updateError.message : updateError}`,
+      );
+    }
+  }
+
+  /**
+   * List runs, newest first
+   */
+  async findAll(query: IngestionRunQueryDto = {}) {
+    const { trigger, status, page = 1, limit = 20 } = query;
+
+    const queryBuilder = this.runRepository.createQueryBuilder('run');
+
+    if (trigger) {
+      queryBuilder.andWhere('run.trigger = :trigger', { trigger });
+    }
+    if (status) {
+      queryBuilder.andWhere('run.status = :status', { status });
+    }
+
+    const [runs, totalCount] = await queryBuilder
+      .orderBy('run.startedAt', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return {
+      data: runs.map((run) => ({
+        ...run,
+        durationMs: run.finishedAt
+          ? new Date(run.finishedAt).getTime() -
+            new Date(run.startedAt).getTime()
+          : null,
+      })),
+      pagination: {
+        page,
+        limit,
+        totalCount,
+        totalPages: Math.ceil(totalCount / limit),
+        hasNext: page * limit < totalCount,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  /**
+   * Get a run with its per-park results.
+   * Failed parks include since when they have been failing continuously.
+   */
+  async findOne(id: number) {
+    const run = await this.runRepository.findOne({ where: { id } });
+
+    if (!run) {
+      throw new NotFoundException(`Ingestion run with ID ${id} not found`);
+    }
+
+    const parkResults = await this.parkResultRepository
+      .createQueryBuilder('result')
+      .leftJoin('result.park', 'park')
+      .addSelect(['park.id', 'park.name'])
+      .where('result."runId" = :runId', { runId: id })
+      .orderBy('result.success', 'ASC')
+      .addOrderBy('park.name', 'ASC')
+      .getMany();
+
+    const failedParkIds = parkResults
+      .filter((result) => !result.success)
+      .map((result) => result.parkId);
+    const failureStreaks = await this.getFailureStreaks(
+      failedParkIds,
+      run.startedAt,
+    );
+    const malformedCounts = await this.payloadQuarantine.countByPark(
+      parkResults.map((result) => result.parkId),
+    );
+
+    return {
+      ...run,
+      durationMs: run.finishedAt
+        ? new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime()
+        : null,
+      parkResults: parkResults.map((result) => ({
+        parkId: result.parkId,
+        parkName: result.park?.name ?? null,
+        success: result.success,
+        httpStatus: result.httpStatus,
+        durationMs: result.durationMs,
+        newEntries: result.newEntries,
+        skippedEntries: result.skippedEntries,
+        openRides: result.openRides,
+        errorMessage: result.errorMessage,
+        malformed: result.malformed,
+        malformedResponses: malformedCounts.get(result.parkId) ?? 0,
+        failingSince: failureStreaks.get(result.parkId)?.failingSince ?? null,
+        consecutiveFailures:
+          failureStreaks.get(result.parkId)?.consecutiveFailures ?? 0,
+      })),
+    };
+  }
+
+  /**
+   * Delete runs (and their park results) older than the retention window
+   */
+  async pruneRuns(retentionDays: number): Promise<number> {
+    const cutoffDate = new Date();
+    cutoffDate.setDate(cutoffDate.getDate() - retentionDays);
+
+    const result = await this.runRepository.delete({
+      startedAt: LessThan(cutoffDate),
+    });
+    return result.affected ?? 0;
+  }
+
+  /**
+   * For each park, find the first failure after its last success up to the given time
+   */
+  private async getFailureStreaks(
+    parkIds: number[],
+    until: Date,
+  ): Promise<Map<number, { failingSince: Date; consecutiveFailures: number }>> {
+    const streaks = new Map<
+      number,
+      { failingSince: Date; consecutiveFailures: number }
+    >();
+    if (parkIds.length === 0) return streaks;
+
+    const rows: Array<{
+      parkId: number;
+      failingSince: Date;
+      consecutiveFailures: string; // COUNT(*) is returned as a string
+    }> = await this.parkResultRepository.query(
+      `
+      SELECT f."parkId" AS "parkId",
+             MIN(run."startedAt") AS "failingSince",
+             COUNT(*) AS "consecutiveFailures"
+      FROM ingestion_park_result f
+      JOIN ingestion_run run ON run.id = f."runId"
+      WHERE f."parkId" = ANY($1)
+        AND f.success = false
+        AND run."startedAt" <= $2
+        AND run."startedAt" > COALESCE(
+          (
+            SELECT MAX(success_run."startedAt")
+            FROM ingestion_park_result s
+            JOIN ingestion_run success_run ON success_run.id = s."runId"
+            WHERE s."parkId" = f."parkId"
+              AND s.success = true
+              AND success_run."startedAt" <= $2
+          ),
+          '-infinity'::timestamptz
+        )
+      GROUP BY f."parkId"
+      `,
+      [parkIds, until],
+    );
+
+    for (const row of rows) {
+      streaks.set(row.parkId, {
+        failingSince: new Date(row.failingSince),
+        consecutiveFailures: parseInt(row.consecutiveFailures, 10),
+      });
+    }
+
+    return streaks;
+  }
+}
@@ -0,0 +1,69 @@
+import { IsOptional, IsNumber, IsEnum, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  IngestionRunStatus,
+  IngestionTrigger,
+} from './ingestion-run.entity.js';
+import { QuarantinedPayloadKind } from './quarantined-payload.entity.js';
+
+export class IngestionRunQueryDto {
+  @IsOptional()
+  @IsEnum(IngestionTrigger)
+  trigger?: IngestionTrigger;
+
+  @IsOptional()
+  @IsEnum(IngestionRunStatus)
+  status?: IngestionRunStatus;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
+
+export class QuarantineQueryDto {
+  @IsOptional()
+  @IsEnum(QuarantinedPayloadKind)
+  kind?: QuarantinedPayloadKind;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  parkId?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
+
+/**
+ * Outcome of processing a single park within an ingestion run
+ */
+export interface ParkIngestionOutcome {
+  parkId: number;
+  success: boolean;
+  httpStatus: number | null;
+  durationMs: number;
+  newEntries: number;
+  skippedEntries: number;
+  openRides: number;
+  malformed: boolean; // Payload rejected by schema validation and quarantined
+  errorMessage: string | null;
+}
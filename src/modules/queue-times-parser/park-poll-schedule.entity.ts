@@ -0,0 +1,63 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  OneToOne,
+  JoinColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { Park } from '../parks/park.entity.js';
+
+export enum PollingMode {
+  OPEN = 'open', // Rides reported open on the last poll
+  EXPECTED_OPEN = 'expected-open', // Inside the observed operating window, no open rides yet
+  CLOSED = 'closed', // Outside the observed operating window
+  SEASONAL_CLOSED = 'seasonal-closed', // No open rides observed for several days
+  UNKNOWN = 'unknown', // No history to derive an operating window from
+}
+
+@Entity()
+@Index('IDX_park_poll_schedule_next_poll_at', ['nextPollAt'])
+export class ParkPollSchedule {
+  @PrimaryColumn()
+  parkId: number;
+
+  @OneToOne(() => Park, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'parkId' })
+  park: Park;
+
+  @Column({
+    type: 'enum',
+    enum: PollingMode,
+    default: PollingMode.UNKNOWN,
+  })
+  mode: PollingMode;
+
+  @Column({ type: 'timestamptz' })
+  nextPollAt: Date;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  lastPolledAt: Date | null;
+
+  @Column({ type: 'int' })
+  intervalMinutes: number;
+
+  @Column({ type: 'int', default: 0 })
+  unchangedPolls: number; // Consecutive successful polls without new queue times
+
+  @Column({ type: 'int', nullable: true })
+  typicalOpenMinute: number | null; // Minutes after local midnight when rides usually open
+
+  @Column({ type: 'int', nullable: true })
+  typicalCloseMinute: number | null; // Minutes after local midnight when rides usually close
+
+  @Column({ type: 'timestamptz', nullable: true })
+  lastOpenAt: Date | null; // Most recent open ride sample within the lookback window
+
+  @Column({ default: false })
+  hasHistory: boolean; // Whether any samples exist within the lookback window
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updatedAt: Date;
+}
@@ -0,0 +1,377 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { In, Repository } from 'typeorm';
+import { Park } from '../parks/park.entity.js';
+import { ParkPollSchedule, PollingMode } from './park-poll-schedule.entity.js';
+import { ParkIngestionOutcome } from './ingestion.dto.js';
+import {
+  CircuitState,
+  ParkCircuitBreakerService,
+} from '../parks/park-circuit-breaker.service.js';
+
+/**
+ * Decides when each park is polled next.
+ * Parks are polled frequently while rides are open or expected to open
+ * within their observed operating window (in the park's local time),
+ * rarely outside of it or when seasonally closed, and back off while
+ * upstream keeps returning unchanged data.
+ */
+@Injectable()
+export class ParkPollScheduleService {
+  private readonly logger = new Logger(ParkPollScheduleService.name);
+
+  // Configuration constants
+  private readonly WINDOW_LOOKBACK_DAYS = 14; // History used to derive the operating window
+  private readonly WINDOW_MARGIN_MINUTES = 60; // Poll frequently this long before opening and after closing
+  private readonly SEASONAL_CLOSED_AFTER_DAYS = 7; // No open rides for this long = seasonally closed
+  private readonly UNKNOWN_INTERVAL_MINUTES = 15; // Parks without any history yet
+
+  private readonly openIntervalMinutes: number;
+  private readonly maxOpenIntervalMinutes: number;
+  private readonly closedIntervalMinutes: number;
+  private readonly seasonalIntervalMinutes: number;
+
+  constructor(
+    @InjectRepository(ParkPollSchedule)
+    private readonly scheduleRepository: Repository<ParkPollSchedule>,
+    @InjectRepository(Park)
+    private readonly parkRepository: Repository<Park>,
+    private readonly circuitBreaker: ParkCircuitBreakerService,
+    private readonly configService: ConfigService,
+  ) {
+    this.openIntervalMinutes = Number(
+      this.configService.get('POLL_INTERVAL_OPEN_MINUTES', 5),
+    );
+    this.maxOpenIntervalMinutes = Number(
+      this.configService.get('POLL_INTERVAL_MAX_BACKOFF_MINUTES', 20),
+    );
+    this.closedIntervalMinutes = Number(
+      this.configService.get('POLL_INTERVAL_CLOSED_MINUTES', 30),
+    );
+    this.seasonalIntervalMinutes = Number(
+      this.configService.get('POLL_INTERVAL_SEASONAL_MINUTES', 180),
+    );
+  }
+
+  /**
+   * IDs of parks due for polling. Parks without a schedule are always due.
+   */
+  async getDueParkIds(now: Date = new Date()): Promise<number[]> {
+    const rows: Array<{ id: number }> = await this.parkRepository
+      .createQueryBuilder('park')
+      .select('park.id', 'id')
+      .leftJoin(ParkPollSchedule, 'schedule', 'schedule."parkId" = park.id')
+      .where('schedule."parkId" IS NULL')
+      .orWhere('schedule."nextPollAt" <= :now', { now })
+      .orderBy('schedule."nextPollAt"', 'ASC', 'NULLS FIRST')
+      .getRawMany();
+
+    return rows.map((row) => row.id);
+  }
+
+  /**
+   * Schedule the next poll for every park polled in a batch.
+   * Never throws - a failing schedule update only delays adaptive polling.
+   */
+  async recordPolls(outcomes: ParkIngestionOutcome[]): Promise<void> {
+    if (outcomes.length === 0) return;
+
+    try {
+      const parkIds = outcomes.map((outcome) => outcome.parkId);
+      const [parks, schedules] = await Promise.all([
+        this.parkRepository.find({
+          where: { id: In(parkIds) },
+          select: ['id', 'timezone'],
+        }),
+        this.scheduleRepository.find({ where: { parkId: In(parkIds) } }),
+      ]);
+      const timezoneMap = new Map(
+        parks.map((park) => [park.id, park.timezone]),
+      );
+      const scheduleMap = new Map(
+        schedules.map((schedule) => [schedule.parkId, schedule]),
+      );
+
+      const now = new Date();
+      const updatedSchedules = outcomes.map((outcome) =>
+        this.computeSchedule(
+          outcome,
+          scheduleMap.get(outcome.parkId),
+          timezoneMap.get(outcome.parkId),
+          now,
+        ),
+      );
+
+      // Failing parks are not polled before their circuit allows a retry
+      for (const schedule of updatedSchedules) {
+        const outcome = outcomes.find((o) => o.parkId === schedule.parkId);
+        if (outcome?.success) continue;
+
+        const circuit = await this.circuitBreaker.getCircuit(schedule.parkId);
+        if (
+          circuit.state === CircuitState.OPEN &&
+          circuit.nextRetryAt &&
+          new Date(circuit.nextRetryAt) > schedule.nextPollAt
+        ) {
+          schedule.nextPollAt = new Date(circuit.nextRetryAt);
+        }
+      }
+
+      await this.scheduleRepository.upsert(updatedSchedules, ['parkId']);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to update poll schedules: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+  }
+
+  /**
+   * Derive each park's typical operating window (local time) from recent queue times.
+   * The window is the median first and last minute of the day with open rides.
+   */
+  async refreshOperatingWindows(): Promise<number> {
+    const since = new Date();
+    since.setDate(since.getDate() - this.WINDOW_LOOKBACK_DAYS);
+
+    const rows: Array<{
+      parkId: number;
+      typicalOpenMinute: string | null;
+      typicalCloseMinute: string | null;
+      lastOpenAt: Date | null;
+    }> = await this.scheduleRepository.query(
+      `
+      WITH daily AS (
+        SELECT r."parkId" AS "parkId",
+               (qt."lastUpdated" AT TIME ZONE p.timezone)::date AS local_date,
+               MIN(
+                 EXTRACT(HOUR FROM qt."lastUpdated" AT TIME ZONE p.timezone) * 60 +
+                 EXTRACT(MINUTE FROM qt."lastUpdated" AT TIME ZONE p.timezone)
+               ) FILTER (WHERE qt."isOpen") AS first_open_minute,
+               MAX(
+                 EXTRACT(HOUR FROM qt."lastUpdated" AT TIME ZONE p.timezone) * 60 +
+                 EXTRACT(MINUTE FROM qt."lastUpdated" AT TIME ZONE p.timezone)
+               ) FILTER (WHERE qt."isOpen") AS last_open_minute,
+               MAX(qt."lastUpdated") FILTER (WHERE qt."isOpen") AS last_open_at
+        FROM queue_time qt
+        JOIN ride r ON r.id = qt."rideId"
+        JOIN park p ON p.id = r."parkId"
+        WHERE qt."lastUpdated" >= $1
+        GROUP BY r."parkId", local_date
+      )
+      SELECT "parkId",
+             ROUND(PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY first_open_minute)) AS "typicalOpenMinute",
+             ROUND(PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY last_open_minute)) AS "typicalCloseMinute",
+             MAX(last_open_at) AS "lastOpenAt"
+      FROM daily
+      GROUP BY "parkId"
+      `,
+      [since],
+    );
+
+    const parkIds = rows.map((row) => row.parkId);
+    const existingSchedules = await this.scheduleRepository.find({
+      where: { parkId: In(parkIds) },
+      select: ['parkId'],
+    });
+    const existingParkIds = new Set(
+      existingSchedules.map((schedule) => schedule.parkId),
+    );
+
+    const windows = rows.map((row) => ({
+      parkId: row.parkId,
+      typicalOpenMinute:
+        row.typicalOpenMinute !== null ? Number(row.typicalOpenMinute) : null,
+      typicalCloseMinute:
+        row.typicalCloseMinute !== null ? Number(row.typicalCloseMinute) : null,
+      lastOpenAt: row.lastOpenAt,
+      hasHistory: true,
+    }));
+
+    // Only update existing schedules - parks polled for the first time are picked up by the next refresh
+    for (const window of windows.filter((w) => existingParkIds.has(w.parkId))) {
+      await this.scheduleRepository.update(window.parkId, window);
+    }
+
+    // Parks whose history dropped out of the lookback window lose their stale window
+    await this.scheduleRepository
+      .createQueryBuilder()
+      .update()
+      .set({
+        typicalOpenMinute: null,
+        typicalCloseMinute: null,
+        lastOpenAt: null,
+        hasHistory: false,
+      })
+      .where('NOT ("parkId" = ANY(:parkIds))', { parkIds })
+      .execute();
+
+    this.logger.log(`Refreshed operating windows for ${rows.length} parks`);
+    return rows.length;
+  }
+
+  /**
+   * Poll schedules of all parks, next poll first
+   */
+  async findAll() {
+    const schedules = await this.scheduleRepository
+      .createQueryBuilder('schedule')
+      .leftJoin('schedule.park', 'park')
+      .addSelect(['park.id', 'park.name', 'park.timezone'])
+      .orderBy('schedule.nextPollAt', 'ASC')
+      .getMany();
+
+    return schedules.map((schedule) => ({
+      parkId: schedule.parkId,
+      parkName: schedule.park?.name ?? null,
+      timezone: schedule.park?.timezone ?? null,
+      mode: schedule.mode,
+      nextPollAt: schedule.nextPollAt,
+      lastPolledAt: schedule.lastPolledAt,
+      intervalMinutes: schedule.intervalMinutes,
+      unchangedPolls: schedule.unchangedPolls,
+      typicalOpens: this.formatMinuteOfDay(schedule.typicalOpenMinute),
+      typicalCloses: this.formatMinuteOfDay(schedule.typicalCloseMinute),
+      lastOpenAt: schedule.lastOpenAt,
+    }));
+  }
+
+  /**
+   * Compute the schedule of a park after it has been polled
+   */
+  private computeSchedule(
+    outcome: ParkIngestionOutcome,
+    existing: ParkPollSchedule | undefined,
+    timezone: string | undefined,
+    now: Date,
+  ): Partial<ParkPollSchedule> & { parkId: number; nextPollAt: Date } {
+    const typicalOpenMinute = existing?.typicalOpenMinute ?? null;
+    const typicalCloseMinute = existing?.typicalCloseMinute ?? null;
+    let lastOpenAt = existing?.lastOpenAt ?? null;
+
+    const unchangedPolls =
+      outcome.success && outcome.newEntries === 0
+        ? (existing?.unchangedPolls ?? 0) + 1
+        : 0;
+
+    let mode: PollingMode;
+    let intervalMinutes: number;
+
+    if (!outcome.success && existing) {
+      // Keep the current cadence for failed polls
+      mode = existing.mode;
+      intervalMinutes = existing.intervalMinutes;
+    } else if (outcome.openRides > 0) {
+      mode = PollingMode.OPEN;
+      lastOpenAt = now;
+      // Back off exponentially while upstream returns unchanged data
+      intervalMinutes = Math.min(
+        this.openIntervalMinutes * Math.pow(2, unchangedPolls),
+        this.maxOpenIntervalMinutes,
+      );
+    } else if (
+      lastOpenAt &&
+      now.getTime() - new Date(lastOpenAt).getTime() >
+        this.SEASONAL_CLOSED_AFTER_DAYS * 24 * 60 * 60 * 1000
+    ) {
+      mode = PollingMode.SEASONAL_CLOSED;
+      intervalMinutes = this.seasonalIntervalMinutes;
+    } else if (
+      typicalOpenMinute === null ||
+      typicalCloseMinute === null ||
+      !timezone
+    ) {
+      mode = existing?.hasHistory
+        ? PollingMode.SEASONAL_CLOSED
+        : PollingMode.UNKNOWN;
+      intervalMinutes =
+        mode === PollingMode.SEASONAL_CLOSED
+          ? this.seasonalIntervalMinutes
+          : this.UNKNOWN_INTERVAL_MINUTES;
+    } else {
+      const minutesUntilWindow = this.getMinutesUntilWindow(
+        this.getLocalMinuteOfDay(now, timezone),
+        typicalOpenMinute,
+        typicalCloseMinute,
+      );
+
+      if (minutesUntilWindow === 0) {
+        mode = PollingMode.EXPECTED_OPEN;
+        intervalMinutes = this.openIntervalMinutes;
+      } else {
+        mode = PollingMode.CLOSED;
+        // Wake up in time for the start of the next window
+        intervalMinutes = Math.max(
+          this.openIntervalMinutes,
+          Math.min(this.closedIntervalMinutes, minutesUntilWindow),
+        );
+      }
+    }
+
+    return {
+      parkId: outcome.parkId,
+      mode,
+      intervalMinutes,
+      unchangedPolls,
+      lastPolledAt: now,
+      nextPollAt: new Date(now.getTime() + intervalMinutes * 60 * 1000),
+      lastOpenAt,
+    };
+  }
+
+  /**
+   * Minutes from the given local minute until the operating window
+   * (widened by the margin) starts - 0 when already inside it
+   */
+  private getMinutesUntilWindow(
+    localMinute: number,
+    typicalOpenMinute: number,
+    typicalCloseMinute: number,
+  ): number {
+    const minutesPerDay = 24 * 60;
+    const windowStart =
+      (typicalOpenMinute - this.WINDOW_MARGIN_MINUTES + minutesPerDay) %
+      minutesPerDay;
+    const windowLength = Math.min(
+      ((typicalCloseMinute - typicalOpenMinute + minutesPerDay) %
+        minutesPerDay) +
+        2 * this.WINDOW_MARGIN_MINUTES,
+      minutesPerDay,
+    );
+
+    const minutesSinceWindowStart =
+      (localMinute - windowStart + minutesPerDay) % minutesPerDay;
+    if (minutesSinceWindowStart < windowLength) return 0;
+
+    return minutesPerDay - minutesSinceWindowStart;
+  }
+
+  /**
+   * Minutes after local midnight in the given IANA timezone
+   */
+  private getLocalMinuteOfDay(date: Date, timezone: string): number {
+    try {
+      const parts = new Intl.DateTimeFormat('en-GB', {
+        timeZone: timezone,
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23',
+      }).formatToParts(date);
+      const hour = Number(parts.find((part) => part.type === 'hour')?.value);
+      const minute = Number(
+        parts.find((part) => part.type === 'minute')?.value,
+      );
+      return hour * 60 + minute;
+    } catch {
+      // Unknown timezone - fall back to UTC
+      return date.getUTCHours() * 60 + date.getUTCMinutes();
+    }
+  }
+
+  private formatMinuteOfDay(minute: number | null): string | null {
+    if (minute === null) return null;
+    const hours = Math.floor(minute / 60);
+    const minutes = minute % 60;
+    return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+  }
+}
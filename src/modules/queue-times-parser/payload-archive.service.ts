@@ -0,0 +1,173 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { mkdir, readdir, readFile, rm, writeFile } from 'fs/promises';
+import { isAbsolute, join } from 'path';
+import { promisify } from 'util';
+import { gunzip, gzip } from 'zlib';
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+export type ArchivedPayloadKind = 'parks' | 'queue_times';
+
+/**
+ * Archived upstream payload as found on disk
+ */
+export interface ArchivedPayload {
+  kind: ArchivedPayloadKind;
+  parkQueueTimesId: number | null;
+  fetchedAt: Date;
+  path: string;
+}
+
+/**
+ * Archives raw upstream payloads as gzipped JSON files so ingestion bugs can be
+ * reproduced by replaying them. Files are grouped in one directory per UTC day:
+ *   <dir>/<yyyy-mm-dd>/parks-<epochMs>.json.gz
+ *   <dir>/<yyyy-mm-dd>/queue_times-<parkQueueTimesId>-<epochMs>.json.gz
+ * Archiving never throws - a full disk must not stop ingestion.
+ */
+@Injectable()
+export class PayloadArchiveService {
+  private readonly logger = new Logger(PayloadArchiveService.name);
+  private readonly enabled: boolean;
+  private readonly archiveDir: string;
+
+  constructor(private readonly configService: ConfigService) {
+    this.enabled =
+      this.configService.get<string>('PAYLOAD_ARCHIVE_ENABLED', 'false') ===
+      'true';
+    const dir = this.configService.get<string>(
+      'PAYLOAD_ARCHIVE_DIR',
+      'archive/payloads',
+    );
+    this.archiveDir = isAbsolute(dir) ? dir : join(process.cwd(), dir);
+  }
+
+  async archiveParks(payload: unknown, fetchedAt: Date = new Date()) {
+    await this.write(`parks-${fetchedAt.getTime()}`, payload, fetchedAt);
+  }
+
+  async archiveQueueTimes(
+    parkQueueTimesId: number,
+    payload: unknown,
+    fetchedAt: Date = new Date(),
+  ) {
+    await this.write(
+      `queue_times-${parkQueueTimesId}-${fetchedAt.getTime()}`,
+      payload,
+      fetchedAt,
+    );
+  }
+
+  /**
+   * List archived payloads fetched within the given range, oldest first
+   */
+  async list(from?: Date, to?: Date): Promise<ArchivedPayload[]> {
+    const payloads: ArchivedPayload[] = [];
+
+    for (const day of await this.listDays()) {
+      // Skip whole days outside the range
+      if (from && day < this.formatDay(from)) continue;
+      if (to && day > this.formatDay(to)) continue;
+
+      for (const file of await readdir(join(this.archiveDir, day))) {
+        const payload = this.parseFileName(join(this.archiveDir, day), file);
+        if (!payload) continue;
+        if (from && payload.fetchedAt < from) continue;
+        if (to && payload.fetchedAt > to) continue;
+        payloads.push(payload);
+      }
+    }
+
+    return payloads.sort(
+      (a, b) => a.fetchedAt.getTime() - b.fetchedAt.getTime(),
+    );
+  }
+
+  async read<T>(payload: ArchivedPayload): Promise<T> {
+    const content = await gunzipAsync(await readFile(payload.path));
+    return JSON.parse(content.toString('utf8')) as T;
+  }
+
+  /**
+   * Delete archived days older than the retention window
+   * @returns Number of deleted day directories
+   */
+  async prune(retentionDays: number): Promise<number> {
+    const cutoffDate = new Date();
+    cutoffDate.setUTCDate(cutoffDate.getUTCDate() - retentionDays);
+    const cutoffDay = this.formatDay(cutoffDate);
+
+    let removedDays = 0;
+    for (const day of await this.listDays()) {
+      if (day < cutoffDay) {
+        await rm(join(this.archiveDir, day), { recursive: true, force: true });
+        removedDays++;
+      }
+    }
+
+    return removedDays;
+  }
+
+  private async write(name: string, payload: unknown, fetchedAt: Date) {
+    if (!this.enabled) return;
+
+    try {
+      const dayDir = join(this.archiveDir, this.formatDay(fetchedAt));
+      await mkdir(dayDir, { recursive: true });
+      await writeFile(
+        join(dayDir, `${name}.json.gz`),
+        await gzipAsync(JSON.stringify(payload)),
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Failed to archive payload ${name}: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+  }
+
+  private async listDays(): Promise<string[]> {
+    try {
+      const entries = await readdir(this.archiveDir, { withFileTypes: true });
+      return entries
+        .filter(
+          (entry) =>
+            entry.isDirectory() && /^\d{4}-\d{2}-\d{2}$/.test(entry.name),
+        )
+        .map((entry) => entry.name)
+        .sort();
+    } catch {
+      // No archive yet
+      return [];
+    }
+  }
+
+  private parseFileName(dir: string, file: string): ArchivedPayload | null {
+    const parksMatch = /^parks-(\d+)\.json\.gz$/.exec(file);
+    if (parksMatch) {
+      return {
+        kind: 'parks',
+        parkQueueTimesId: null,
+        fetchedAt: new Date(Number(parksMatch[1])),
+        path: join(dir, file),
+      };
+    }
+
+    const queueTimesMatch = /^queue_times-(\d+)-(\d+)\.json\.gz$/.exec(file);
+    if (queueTimesMatch) {
+      return {
+        kind: 'queue_times',
+        parkQueueTimesId: Number(queueTimesMatch[1]),
+        fetchedAt: new Date(Number(queueTimesMatch[2])),
+        path: join(dir, file),
+      };
+    }
+
+    return null;
+  }
+
+  private formatDay(date: Date): string {
+    return date.toISOString().split('T')[0];
+  }
+}
@@ -0,0 +1,151 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { LessThan, Repository } from 'typeorm';
+import {
+  QuarantinedPayload,
+  QuarantinedPayloadKind,
+} from './quarantined-payload.entity.js';
+import { QuarantineQueryDto } from './ingestion.dto.js';
+
+/**
+ * Stores upstream payloads rejected by schema validation and serves them to the admin endpoints.
+ * Quarantining never throws - a failing quarantine must not stop ingestion.
+ */
+@Injectable()
+export class PayloadQuarantineService {
+  private readonly logger = new Logger(PayloadQuarantineService.name);
+
+  constructor(
+    @InjectRepository(QuarantinedPayload)
+    private readonly quarantineRepository: Repository<QuarantinedPayload>,
+  ) {}
+
+  async quarantine(
+    kind: QuarantinedPayloadKind,
+    provider: string,
+    payload: unknown,
+    validationErrors: string[],
+    parkId: number | null = null,
+  ): Promise<void> {
+    try {
+      await this.quarantineRepository.insert({
+        kind,
+        provider,
+        payload: payload ?? null,
+        validationErrors,
+        parkId,
+      });
+      this.logger.warn(
+        `Quarantined malformed ${kind} payload${parkId ? ` for park ${parkId}` : ''} with ${validationErrors.length} validation errors`,
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Failed to quarantine ${kind} payload: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+  }
+
+  /**
+   * List quarantined payloads without their content, newest first
+   */
+  async findAll(query: QuarantineQueryDto = {}) {
+    const { kind, parkId, page = 1, limit = 20 } = query;
+
+    const queryBuilder = this.quarantineRepository
+      .createQueryBuilder('quarantined')
+      .leftJoin('quarantined.park', 'park')
+      .select([
+        'quarantined.id',
+        'quarantined.kind',
+        'quarantined.parkId',
+        'quarantined.provider',
+        'quarantined.validationErrors',
+        'quarantined.receivedAt',
+        'park.id',
+        'park.name',
+      ]);
+
+    if (kind) {
+      queryBuilder.andWhere('quarantined.kind = :kind', { kind });
+    }
+    if (parkId) {
+      queryBuilder.andWhere('quarantined."parkId" = :parkId', { parkId });
+    }
+
+    const [payloads, totalCount] = await queryBuilder
+      .orderBy('quarantined.receivedAt', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return {
+      data: payloads.map((payload) => ({
+        id: payload.id,
+        kind: payload.kind,
+        parkId: payload.parkId,
+        parkName: payload.park?.name ?? null,
+        provider: payload.provider,
+        validationErrors: payload.validationErrors,
+        receivedAt: payload.receivedAt,
+      })),
+      pagination: {
+        page,
+        limit,
+        totalCount,
+        totalPages: Math.ceil(totalCount / limit),
+        hasNext: page * limit < totalCount,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  /**
+   * Get a quarantined payload including its raw content
+   */
+  async findOne(id: number): Promise<QuarantinedPayload> {
+    const payload = await this.quarantineRepository.findOne({ where: { id } });
+
+    if (!payload) {
+      throw new NotFoundException(
+        `Quarantined payload with ID ${id} not found`,
+      );
+    }
+
+    return payload;
+  }
+
+  /**
+   * Number of malformed responses per park within the retention window
+   */
+  async countByPark(parkIds: number[]): Promise<Map<number, number>> {
+    const counts = new Map<number, number>();
+    if (parkIds.length === 0) return counts;
+
+    const rows: Array<{ parkId: number; count: string }> =
+      await this.quarantineRepository
+        .createQueryBuilder('quarantined')
+        .select('quarantined."parkId"', 'parkId')
+        .addSelect('COUNT(*)', 'count')
+        .where('quarantined."parkId" = ANY(:parkIds)', { parkIds })
+        .groupBy('quarantined."parkId"')
+        .getRawMany();
+
+    for (const row of rows) {
+      counts.set(row.parkId, parseInt(row.count, 10));
+    }
+    return counts;
+  }
+
+  /**
+   * Delete quarantined payloads older than the retention window
+   */
+  async prune(retentionDays: number): Promise<number> {
+    const cutoffDate = new Date();
+    cutoffDate.setDate(cutoffDate.getDate() - retentionDays);
+
+    const result = await this.quarantineRepository.delete({
+      receivedAt: LessThan(cutoffDate),
+    });
+    return result.affected ?? 0;
+  }
+}
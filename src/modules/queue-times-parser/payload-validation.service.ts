@@ -0,0 +1,72 @@
+import { Injectable } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { ValidationError, validateSync } from 'class-validator';
+import {
+  UpstreamParkGroupSchema,
+  UpstreamQueueTimesSchema,
+} from './upstream-payload.schema.js';
+
+/**
+ * Validates upstream payloads against their declared schemas
+ */
+@Injectable()
+export class PayloadValidationService {
+  private readonly MAX_ERRORS = 50;
+
+  /**
+   * @returns Validation errors as "<path>: <message>", empty if the payload is valid
+   */
+  validateParks(payload: unknown): string[] {
+    if (!Array.isArray(payload)) {
+      return ['(root): must be an array of park groups'];
+    }
+
+    const errors = payload.flatMap((group, index) =>
+      this.validateObject(UpstreamParkGroupSchema, group, `[${index}]`),
+    );
+    return errors.slice(0, this.MAX_ERRORS);
+  }
+
+  /**
+   * @returns Validation errors as "<path>: <message>", empty if the payload is valid
+   */
+  validateQueueTimes(payload: unknown): string[] {
+    return this.validateObject(UpstreamQueueTimesSchema, payload, '').slice(
+      0,
+      this.MAX_ERRORS,
+    );
+  }
+
+  private validateObject(
+    schema: new () => object,
+    value: unknown,
+    path: string,
+  ): string[] {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return [`${path || '(root)'}: must be an object`];
+    }
+
+    const errors = validateSync(plainToInstance(schema, value), {
+      forbidUnknownValues: true,
+    });
+    return this.flattenErrors(errors, path);
+  }
+
+  private flattenErrors(errors: ValidationError[], path: string): string[] {
+    return errors.flatMap((error) => {
+      const propertyPath = /^\d+$/.test(error.property)
+        ? `${path}[${error.property}]`
+        : path
+          ? `${path}.${error.property}`
+          : error.property;
+
+      const messages = Object.values(error.constraints ?? {}).map(
+        (message) => `${propertyPath}: ${message}`,
+      );
+      return [
+        ...messages,
+        ...this.flattenErrors(error.children ?? [], propertyPath),
+      ];
+    });
+  }
+}
@@ -0,0 +1,48 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { Park } from '../parks/park.entity.js';
+
+export enum QuarantinedPayloadKind {
+  PARKS = 'parks',
+  QUEUE_TIMES = 'queue_times',
+}
+
+/**
+ * Upstream payload rejected by schema validation, kept for inspection
+ */
+@Entity()
+@Index('IDX_quarantined_payload_park_received_at', ['parkId', 'receivedAt'])
+@Index('IDX_quarantined_payload_received_at', ['receivedAt'])
+export class QuarantinedPayload {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ type: 'enum', enum: QuarantinedPayloadKind })
+  kind: QuarantinedPayloadKind;
+
+  @ManyToOne(() => Park, { onDelete: 'CASCADE', nullable: true })
+  @JoinColumn({ name: 'parkId' })
+  park: Park | null;
+
+  @Column({ type: 'int', nullable: true })
+  parkId: number | null; // Null for parks list payloads
+
+  @Column({ type: 'varchar', length: 50 })
+  provider: string;
+
+  @Column({ type: 'jsonb', nullable: true })
+  payload: unknown;
+
+  @Column({ type: 'jsonb' })
+  validationErrors: string[];
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  receivedAt: Date;
+}
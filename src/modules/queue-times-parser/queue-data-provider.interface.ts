@@ -0,0 +1,60 @@
+export const QUEUE_DATA_PROVIDER = Symbol('QUEUE_DATA_PROVIDER');
+
+/**
+ * Park entry as delivered by an upstream parks list
+ */
+export interface UpstreamPark {
+  id: number;
+  name: string;
+  country: string;
+  continent: string;
+  latitude: string | number;
+  longitude: string | number;
+  timezone: string;
+}
+
+/**
+ * Park group (operator) entry containing its parks
+ */
+export interface UpstreamParkGroup {
+  id: number;
+  name: string;
+  parks: UpstreamPark[];
+}
+
+export interface UpstreamRide {
+  id: number;
+  name: string;
+  is_open: boolean;
+  wait_time: number | null;
+  last_updated: string | null;
+}
+
+export interface UpstreamLand {
+  id: number;
+  name: string;
+  rides: UpstreamRide[];
+}
+
+/**
+ * Live wait time payload for a single park
+ */
+export interface UpstreamQueueTimes {
+  lands: UpstreamLand[];
+  rides?: UpstreamRide[];
+}
+
+/**
+ * Source of park and live queue data used by the ingestion pipeline.
+ * Implementations only fetch data - persistence stays in QueueTimesParserService.
+ */
+export interface QueueDataProvider {
+  readonly name: string;
+  fetchParks(): Promise<UpstreamParkGroup[]>;
+  fetchQueueTimes(parkQueueTimesId: number): Promise<UpstreamQueueTimes>;
+  /**
+   * Time a payload returned by fetchQueueTimes was originally fetched, for providers
+   * serving recorded payloads. Without it the payload counts as fetched now.
+   */
+  getFetchedAt?(payload: UpstreamQueueTimes): Date | undefined;
+}
@@ -0,0 +1,319 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { createReadStream } from 'fs';
+import { extname } from 'path';
+import { createInterface } from 'readline';
+import { Ride } from '../parks/ride.entity.js';
+import { QueueTime } from '../parks/queue-time.entity.js';
+
+/**
+ * Historical wait time as read from an import file
+ */
+export interface HistoricalQueueTimeRecord {
+  parkQueueTimesId: number;
+  rideQueueTimesId: number;
+  timestamp: Date;
+  waitTime: number;
+  isOpen: boolean;
+}
+
+/**
+ * Result of importing a single file
+ */
+export interface QueueTimeImportReport {
+  file: string;
+  totalRows: number;
+  imported: number;
+  duplicates: number;
+  invalidRows: number;
+  unknownRides: number;
+  // "<parkQueueTimesId>/<rideQueueTimesId>" of rides not found in the database
+  unknownRideKeys: string[];
+  invalidLineNumbers: number[];
+}
+
+/**
+ * Imports historical queue times from CSV or NDJSON files.
+ * Rows are mapped to existing rides by park and ride queueTimesId and inserted
+ * with ON CONFLICT DO NOTHING, so rows already stored for the same ride and
+ * timestamp are reported as duplicates and re-running an import is safe.
+ *
+ * CSV files need a header row with the columns
+ *   parkQueueTimesId,rideQueueTimesId,timestamp,waitTime,isOpen
+ * NDJSON files contain one object per line with the same keys.
+ */
+@Injectable()
+export class QueueTimeImportService {
+  private readonly logger = new Logger(QueueTimeImportService.name);
+  private readonly INSERT_BATCH_SIZE = 1000;
+  private readonly MAX_REPORTED_ITEMS = 50;
+
+  constructor(
+    @InjectRepository(Ride)
+    private readonly rideRepository: Repository<Ride>,
+    @InjectRepository(QueueTime)
+    private readonly queueTimeRepository: Repository<QueueTime>,
+  ) {}
+
+  async importFile(
+    path: string,
+    options: { dryRun?: boolean } = {},
+  ): Promise<QueueTimeImportReport> {
+    const format = extname(path).toLowerCase() === '.csv' ? 'csv' : 'ndjson';
+    const rideIdMap = await this.loadRideIdMap();
+
+    const report: QueueTimeImportReport = {
+      file: path,
+      totalRows: 0,
+      imported: 0,
+      duplicates: 0,
+      invalidRows: 0,
+      unknownRides: 0,
+      unknownRideKeys: [],
+      invalidLineNumbers: [],
+    };
+    const unknownRideKeys = new Set<string>();
+
+    let batch: Array<{
+      rideId: number;
+      waitTime: number;
+      isOpen: boolean;
+      lastUpdated: Date;
+    }> = [];
+
+    const flush = async () => {
+      if (batch.length === 0) return;
+      const inserted = options.dryRun
+        ? await this.countNewRows(batch)
+        : await this.insertBatch(batch);
+      report.imported += inserted;
+      report.duplicates += batch.length - inserted;
+      batch = [];
+    };
+
+    const lines = createInterface({
+      input: createReadStream(path, 'utf8'),
+      crlfDelay: Infinity,
+    });
+
+    let header: string[] | null = null;
+    let lineNumber = 0;
+
+    for await (const line of lines) {
+      lineNumber++;
+      if (line.trim() === '') continue;
+
+      if (format === 'csv' && !header) {
+        header = this.splitCsvLine(line);
+        continue;
+      }
+
+      report.totalRows++;
+      const record =
+        format === 'csv'
+          ? this.parseCsvLine(line, header)
+          : this.parseNdjsonLine(line);
+
+      if (!record) {
+        report.invalidRows++;
+        if (report.invalidLineNumbers.length < this.MAX_REPORTED_ITEMS) {
+          report.invalidLineNumbers.push(lineNumber);
+        }
+        continue;
+      }
+
+      const rideKey = `${record.parkQueueTimesId}/${record.rideQueueTimesId}`;
+      const rideId = rideIdMap.get(rideKey);
+      if (!rideId) {
+        report.unknownRides++;
+        unknownRideKeys.add(rideKey);
+        continue;
+      }
+
+      batch.push({
+        rideId,
+        waitTime: Math.max(0, record.waitTime),
+        isOpen: record.isOpen,
+        lastUpdated: record.timestamp,
+      });
+
+      if (batch.length >= this.INSERT_BATCH_SIZE) {
+        await flush();
+      }
+    }
+
+    await flush();
+
+    report.unknownRideKeys = Array.from(unknownRideKeys).slice(
+      0,
+      this.MAX_REPORTED_ITEMS,
+    );
+
+    this.logger.log(
+      `${options.dryRun ? '[dry run] ' : ''}Imported ${report.imported} of ${report.totalRows} rows from ${path}: ${report.duplicates} duplicates, ${report.unknownRides} unknown rides, ${report.invalidRows} invalid`,
+    );
+
+    return report;
+  }
+
+  /**
+   * Map "<parkQueueTimesId>/<rideQueueTimesId>" to ride IDs
+   */
+  private async loadRideIdMap(): Promise<Map<string, number>> {
+    const rows: Array<{
+      id: number;
+      rideQueueTimesId: number;
+      parkQueueTimesId: number;
+    }> = await this.rideRepository
+      .createQueryBuilder('ride')
+      .innerJoin('ride.park', 'park')
+      .select('ride.id', 'id')
+      .addSelect('ride.queueTimesId', 'rideQueueTimesId')
+      .addSelect('park.queueTimesId', 'parkQueueTimesId')
+      .getRawMany();
+
+    return new Map(
+      rows.map((row) => [
+        `${row.parkQueueTimesId}/${row.rideQueueTimesId}`,
+        row.id,
+      ]),
+    );
+  }
+
+  /**
+   * Insert rows, skipping those already stored for the same ride and timestamp
+   * @returns Number of inserted rows
+   */
+  private async insertBatch(
+    rows: Array<{
+      rideId: number;
+      waitTime: number;
+      isOpen: boolean;
+      lastUpdated: Date;
+    }>,
+  ): Promise<number> {
+    const result = await this.queueTimeRepository
+      .createQueryBuilder()
+      .insert()
+      .into(QueueTime)
+      .values(
+        rows.map((row) => ({
+          ride: { id: row.rideId } as Ride,
+          waitTime: row.waitTime,
+          isOpen: row.isOpen,
+          lastUpdated: row.lastUpdated,
+        })),
+      )
+      .orIgnore()
+      .returning('"id"')
+      .execute();
+
+    return (result.raw as unknown[]).length;
+  }
+
+  /**
+   * Count rows that would be inserted without writing them
+   */
+  private async countNewRows(
+    rows: Array<{ rideId: number; lastUpdated: Date }>,
+  ): Promise<number> {
+    // The same ride and timestamp may also appear twice within a file
+    const uniqueRows = new Map(
+      rows.map((row) => [`${row.rideId}/${row.lastUpdated.getTime()}`, row]),
+    );
+
+    const [{ count }]: Array<{ count: string }> =
+      await this.queueTimeRepository.query(
+        `
+        SELECT COUNT(*) AS count
+        FROM UNNEST($1::int[], $2::timestamptz[]) AS candidate("rideId", "lastUpdated")
+        WHERE NOT EXISTS (
+          SELECT 1 FROM queue_time qt
+          WHERE qt."rideId" = candidate."rideId"
+            AND qt."lastUpdated" = candidate."lastUpdated"
+        )
+        `,
+        [
+          Array.from(uniqueRows.values()).map((row) => row.rideId),
+          Array.from(uniqueRows.values()).map((row) => row.lastUpdated),
+        ],
+      );
+
+    return parseInt(count, 10);
+  }
+
+  private parseCsvLine(
+    line: string,
+    header: string[],
+  ): HistoricalQueueTimeRecord | null {
+    const values = this.splitCsvLine(line);
+    const row: Record<string, string> = {};
+    header.forEach((column, index) => {
+      row[column] = values[index];
+    });
+    return this.toRecord(row);
+  }
+
+  private parseNdjsonLine(line: string): HistoricalQueueTimeRecord | null {
+    try {
+      return this.toRecord(JSON.parse(line) as Record<string, unknown>);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Validate and normalize a raw row, null if it is not usable
+   */
+  private toRecord(
+    row: Record<string, unknown>,
+  ): HistoricalQueueTimeRecord | null {
+    const isMissing = (value: unknown) =>
+      value === undefined || value === null || value === '';
+    if (
+      isMissing(row.parkQueueTimesId) ||
+      isMissing(row.rideQueueTimesId) ||
+      isMissing(row.timestamp) ||
+      isMissing(row.waitTime)
+    ) {
+      return null;
+    }
+
+    const parkQueueTimesId = Number(row.parkQueueTimesId);
+    const rideQueueTimesId = Number(row.rideQueueTimesId);
+    const waitTime = Number(row.waitTime);
+    const timestamp = new Date(row.timestamp as string | number);
+
+    if (
+      !Number.isInteger(parkQueueTimesId) ||
+      !Number.isInteger(rideQueueTimesId) ||
+      !Number.isFinite(waitTime) ||
+      isNaN(timestamp.getTime())
+    ) {
+      return null;
+    }
+
+    return {
+      parkQueueTimesId,
+      rideQueueTimesId,
+      timestamp,
+      waitTime: Math.round(waitTime),
+      isOpen: this.parseBoolean(row.isOpen),
+    };
+  }
+
+  private parseBoolean(value: unknown): boolean {
+    if (typeof value === 'boolean') return value;
+    if (typeof value === 'number') return value !== 0;
+    if (value === undefined || value === null || value === '') return true;
+    if (typeof value !== 'string') return false;
+    return ['true', '1', 'yes', 'open'].includes(value.trim().toLowerCase());
+  }
+
+  private splitCsvLine(line: string): string[] {
+    return line
+      .split(',')
+      .map((value) => value.trim().replace(/^"(.*)"$/, '$1'));
+  }
+}
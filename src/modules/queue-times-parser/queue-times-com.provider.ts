@@ -0,0 +1,65 @@
+import { Injectable, Logger } from '@nestjs/common';
+import axios from 'axios';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  QueueDataProvider,
+  UpstreamParkGroup,
+  UpstreamQueueTimes,
+} from './queue-data-provider.interface.js';
+
+/**
+ * Queue data provider backed by the public queue-times.com API
+ */
+@Injectable()
+export class QueueTimesComProvider implements QueueDataProvider {
+  readonly name = 'queue-times';
+  private readonly logger = new Logger(QueueTimesComProvider.name);
+  private readonly baseUrl = 'https://queue-times.com';
+  private readonly userAgent: string;
+
+  constructor() {
+    // Dynamically read version from package.json
+    try {
+      const packageJsonPath = join(process.cwd(), 'package.json');
+      const packageJson = JSON.parse(readFileSync(packageJsonPath, 'utf8')) as {
+        version: string;
+      };
+      this.userAgent = `ParkFan-API/${packageJson.version}`;
+    } catch {
+      this.logger.warn(
+        'Could not read package.json, using fallback user agent',
+      );
+      this.userAgent = 'ParkFan-API/0.4.7';
+    }
+  }
+
+  async fetchParks(): Promise<UpstreamParkGroup[]> {
+    const url = `${this.baseUrl}/parks.json`;
+    this.logger.log(`Fetching parks from ${url}`);
+
+    const response = await axios.get<UpstreamParkGroup[]>(url, {
+      timeout: 15000,
+      headers: {
+        'User-Agent': this.userAgent,
+        Accept: 'application/json',
+      },
+    });
+
+    return response.data;
+  }
+
+  async fetchQueueTimes(parkQueueTimesId: number): Promise<UpstreamQueueTimes> {
+    const url = `${this.baseUrl}/parks/${parkQueueTimesId}/queue_times.json`;
+
+    const response = await axios.get<UpstreamQueueTimes>(url, {
+      timeout: 15000, // 15 second timeout
+      headers: {
+        'User-Agent': this.userAgent,
+        Accept: 'application/json',
+      },
+    });
+
+    return response.data;
+  }
+}
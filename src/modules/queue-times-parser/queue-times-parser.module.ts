@@ -1,4 +1,5 @@
 import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { ParksModule } from '../parks/parks.module';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { ParkGroup } from '../parks/park-group.entity';
@@ -8,15 +9,86 @@ import { Ride } from '../parks/ride.entity';
 import { QueueTime } from '../parks/queue-time.entity';
 import { QueueTimesParserService } from './queue-times-parser.service.js';
 import { QueueTimesScheduler } from './queue-times-scheduler.service.js';
+import { QueueTimesComProvider } from './queue-times-com.provider.js';
+import { FixtureQueueDataProvider } from './fixture-queue-data.provider.js';
+import { ArchivedQueueDataProvider } from './archived-queue-data.provider.js';
+import { QUEUE_DATA_PROVIDER } from './queue-data-provider.interface.js';
+import { IngestionRun } from './ingestion-run.entity.js';
+import { IngestionParkResult } from './ingestion-park-result.entity.js';
+import { IngestionRunService } from './ingestion-run.service.js';
+import { IngestionAdminController } from './ingestion-admin.controller.js';
+import { ParkPollSchedule } from './park-poll-schedule.entity.js';
+import { ParkPollScheduleService } from './park-poll-schedule.service.js';
+import { PayloadArchiveService } from './payload-archive.service.js';
+import { QueueTimeImportService } from './queue-time-import.service.js';
+import { QuarantinedPayload } from './quarantined-payload.entity.js';
+import { PayloadValidationService } from './payload-validation.service.js';
+import { PayloadQuarantineService } from './payload-quarantine.service.js';
+import { WaitTimeAnomalyService } from './wait-time-anomaly.service.js';
 import { UtilsModule } from '../utils/utils.module.js';
+import { RidesModule } from '../rides/rides.module.js';
 
 @Module({
   imports: [
     ParksModule,
-    TypeOrmModule.forFeature([ParkGroup, Park, ThemeArea, Ride, QueueTime]),
+    TypeOrmModule.forFeature([
+      ParkGroup,
+      Park,
+      ThemeArea,
+      Ride,
+      QueueTime,
+      IngestionRun,
+      IngestionParkResult,
+      ParkPollSchedule,
+      QuarantinedPayload,
+    ]),
     UtilsModule,
+    RidesModule,
+  ],
+  controllers: [IngestionAdminController],
+  providers: [
+    QueueTimesParserService,
+    QueueTimesScheduler,
+    IngestionRunService,
+    ParkPollScheduleService,
+    PayloadArchiveService,
+    QueueTimeImportService,
+    PayloadValidationService,
+    PayloadQuarantineService,
+    WaitTimeAnomalyService,
+    QueueTimesComProvider,
+    FixtureQueueDataProvider,
+    ArchivedQueueDataProvider,
+    {
+      provide: QUEUE_DATA_PROVIDER,
+      inject: [
+        ConfigService,
+        QueueTimesComProvider,
+        FixtureQueueDataProvider,
+        ArchivedQueueDataProvider,
+      ],
+      useFactory: (
+        configService: ConfigService,
+        queueTimesComProvider: QueueTimesComProvider,
+        fixtureProvider: FixtureQueueDataProvider,
+        archivedProvider: ArchivedQueueDataProvider,
+      ) => {
+        switch (configService.get<string>('QUEUE_DATA_PROVIDER')) {
+          case 'fixture':
+            return fixtureProvider;
+          case 'archive':
+            return archivedProvider;
+          default:
+            return queueTimesComProvider;
+        }
+      },
+    },
+  ],
+  exports: [
+    QueueTimesParserService,
+    PayloadArchiveService,
+    ArchivedQueueDataProvider,
+    QueueTimeImportService,
   ],
-  providers: [QueueTimesParserService, QueueTimesScheduler],
-  exports: [QueueTimesParserService],
 })
 export class QueueTimesParserModule {}
@@ -1,24 +1,38 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Inject, Injectable, Logger } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { ConfigService } from '@nestjs/config';
+import { FindOptionsWhere, In, Repository } from 'typeorm';
 import { ParkGroup } from '../parks/park-group.entity.js';
 import { Park } from '../parks/park.entity.js';
 import { ThemeArea } from '../parks/theme-area.entity.js';
 import { Ride } from '../parks/ride.entity.js';
 import { QueueTime } from '../parks/queue-time.entity.js';
+import { RideEventType } from '../parks/ride-event.entity.js';
+import { RideEventsService } from '../parks/ride-events.service.js';
+import { ParkCircuitBreakerService } from '../parks/park-circuit-breaker.service.js';
 import { CacheService } from '../utils/cache.service.js';
 import axios from 'axios';
-import { readFileSync } from 'fs';
-import { join } from 'path';
+import {
+  QUEUE_DATA_PROVIDER,
+  QueueDataProvider,
+} from './queue-data-provider.interface.js';
+import { IngestionRunService } from './ingestion-run.service.js';
+import { IngestionRun, IngestionTrigger } from './ingestion-run.entity.js';
+import { ParkIngestionOutcome } from './ingestion.dto.js';
+import { PayloadArchiveService } from './payload-archive.service.js';
+import { PayloadValidationService } from './payload-validation.service.js';
+import { PayloadQuarantineService } from './payload-quarantine.service.js';
+import { QuarantinedPayloadKind } from './quarantined-payload.entity.js';
+import { MalformedPayloadError } from './upstream-payload.schema.js';
+import { WaitTimeAnomalyService } from './wait-time-anomaly.service.js';
 
 @Injectable()
 export class QueueTimesParserService {
   private readonly logger = new Logger(QueueTimesParserService.name);
   private isParksUpdateRunning = false;
   private isQueueTimesUpdateRunning = false;
-  private readonly BATCH_SIZE = 20;
-  private readonly BATCH_DELAY_MS = 100;
-  private readonly userAgent: string;
+  private readonly batchSize: number;
+  private readonly batchDelayMs: number;
 
   constructor(
     @InjectRepository(ParkGroup)
@@ -32,18 +46,23 @@ export class QueueTimesParserService {
     @InjectRepository(QueueTime)
     private readonly queueTimeRepository: Repository<QueueTime>,
     private readonly cacheService: CacheService,
+    @Inject(QUEUE_DATA_PROVIDER)
+    private readonly queueDataProvider: QueueDataProvider,
+    private readonly ingestionRunService: IngestionRunService,
+    private readonly rideEventsService: RideEventsService,
+    private readonly circuitBreaker: ParkCircuitBreakerService,
+    private readonly payloadArchive: PayloadArchiveService,
+    private readonly payloadValidation: PayloadValidationService,
+    private readonly payloadQuarantine: PayloadQuarantineService,
+    private readonly waitTimeAnomaly: WaitTimeAnomalyService,
+    private readonly configService: ConfigService,
   ) {
-    // Dynamically read version from package.json
-    try {
-      const packageJsonPath = join(process.cwd(), 'package.json');
-      const packageJson = JSON.parse(readFileSync(packageJsonPath, 'utf8'));
-      this.userAgent = `ParkFan-API/${packageJson.version}`;
-    } catch (error) {
-      this.logger.warn(
-        'Could not read package.json, using fallback user agent',
-      );
-      this.userAgent = 'ParkFan-API/0.4.7';
-    }
+    this.batchSize = Number(
+      this.configService.get('QUEUE_TIMES_BATCH_SIZE', 20),
+    );
+    this.batchDelayMs = Number(
+      this.configService.get('QUEUE_TIMES_BATCH_DELAY', 100),
+    );
   }
 
   async fetchAndStoreParks(): Promise<void> {
@@ -56,16 +75,19 @@ export class QueueTimesParserService {
 
     this.isParksUpdateRunning = true;
     try {
-      const url = 'https://queue-times.com/parks.json';
-      this.logger.log(`Fetching parks from ${url}`);
-      const response = await axios.get(url, {
-        timeout: 15000,
-        headers: {
-          'User-Agent': this.userAgent,
-          Accept: 'application/json',
-        },
-      });
-      const groups = response.data;
+      const groups = await this.queueDataProvider.fetchParks();
+      await this.payloadArchive.archiveParks(groups);
+
+      const validationErrors = this.payloadValidation.validateParks(groups);
+      if (validationErrors.length > 0) {
+        await this.payloadQuarantine.quarantine(
+          QuarantinedPayloadKind.PARKS,
+          this.queueDataProvider.name,
+          groups,
+          validationErrors,
+        );
+        throw new MalformedPayloadError('parks', validationErrors);
+      }
 
       // Collect all park groups and parks for bulk operations
       const parkGroupsToUpsert = [];
@@ -147,30 +169,51 @@ export class QueueTimesParserService {
     }
   }
 
-  async fetchAndStoreQueueTimes(): Promise<void> {
+  /**
+   * Fetch and store queue times for all parks, or only the given parks
+   * @returns Per-park outcomes, empty if another update was already running
+   */
+  async fetchAndStoreQueueTimes(
+    trigger: IngestionTrigger = IngestionTrigger.SCHEDULED,
+    parkIds?: number[],
+  ): Promise<ParkIngestionOutcome[]> {
     if (this.isQueueTimesUpdateRunning) {
       this.logger.warn(
         'Queue times update is already running, skipping this execution',
       );
-      return;
+      return [];
     }
 
     this.isQueueTimesUpdateRunning = true;
+    let run: IngestionRun | null = null;
+    let totalNewEntries = 0;
+    let totalSkippedEntries = 0;
+    let totalProcessedParks = 0;
+    let totalFailedParks = 0;
+    let totalMalformedParks = 0;
+    const allOutcomes: ParkIngestionOutcome[] = [];
+    const where: FindOptionsWhere<Park> = parkIds ? { id: In(parkIds) } : {};
+
     try {
       // Use streaming approach to avoid loading all parks into memory
-      const totalParks = await this.parkRepository.count();
+      const totalParks = await this.parkRepository.count({ where });
       this.logger.log(`Processing queue times for ${totalParks} parks`);
 
-      let totalNewEntries = 0;
-      let totalSkippedEntries = 0;
-      let totalProcessedParks = 0;
+      run = await this.ingestionRunService.startRun(
+        trigger,
+        this.queueDataProvider.name,
+        totalParks,
+      );
+
       let offset = 0;
 
       // Process parks in smaller chunks using pagination instead of loading all at once
       while (offset < totalParks) {
         const parks = await this.parkRepository.find({
+          where,
+          order: { id: 'ASC' },
           skip: offset,
-          take: this.BATCH_SIZE,
+          take: this.batchSize,
           select: ['id', 'queueTimesId', 'name'], // Only select needed fields
         });
 
@@ -180,31 +223,35 @@ export class QueueTimesParserService {
           `Processing parks ${offset + 1}-${offset + parks.length} of ${totalParks}`,
         );
 
-        const batchPromises = parks.map((park) =>
-          this.processParkQueueTimes(park),
+        const outcomes = await Promise.all(
+          parks.map((park) => this.processParkWithOutcome(park)),
         );
-        const batchResults = await Promise.allSettled(batchPromises);
 
         // Aggregate results from this batch
-        batchResults.forEach((result, index) => {
+        outcomes.forEach((outcome, index) => {
           const park = parks[index];
-          if (result.status === 'fulfilled') {
-            totalNewEntries += result.value.newEntries;
-            totalSkippedEntries += result.value.skippedEntries;
+          if (outcome.success) {
+            totalNewEntries += outcome.newEntries;
+            totalSkippedEntries += outcome.skippedEntries;
             totalProcessedParks++;
           } else {
+            totalFailedParks++;
+            if (outcome.malformed) totalMalformedParks++;
             this.logger.error(
-              `Failed to fetch queue times for park ${park.name}: ${result.reason?.message || 'Unknown error'}`,
+              `Failed to fetch queue times for park ${park.name}: ${outcome.errorMessage}`,
             );
           }
         });
 
-        offset += this.BATCH_SIZE;
+        await this.ingestionRunService.recordParkResults(run, outcomes);
+        allOutcomes.push(...outcomes);
+
+        offset += this.batchSize;
 
         // Small delay between batches to be nice to the API
         if (offset < totalParks) {
           await new Promise((resolve) =>
-            setTimeout(resolve, this.BATCH_DELAY_MS),
+            setTimeout(resolve, this.batchDelayMs),
           );
         }
       }
@@ -212,8 +259,29 @@ export class QueueTimesParserService {
       this.logger.log(
         `Queue times update completed: ${totalProcessedParks} parks processed, ${totalNewEntries} new entries, ${totalSkippedEntries} skipped (no new data)`,
       );
+
+      await this.ingestionRunService.finishRun(run, {
+        processedParks: totalProcessedParks,
+        failedParks: totalFailedParks,
+        malformedParks: totalMalformedParks,
+        newEntries: totalNewEntries,
+        skippedEntries: totalSkippedEntries,
+      });
+
+      return allOutcomes;
     } catch (error) {
       this.logger.error('Failed to process queue times update', error);
+      await this.ingestionRunService.finishRun(
+        run,
+        {
+          processedParks: totalProcessedParks,
+          failedParks: totalFailedParks,
+          malformedParks: totalMalformedParks,
+          newEntries: totalNewEntries,
+          skippedEntries: totalSkippedEntries,
+        },
+        error,
+      );
       throw error;
     } finally {
       this.isQueueTimesUpdateRunning = false;
@@ -249,160 +317,6 @@ export class QueueTimesParserService {
     };
   }
 
-  /**
-   * Process a single ride and its queue time data with bulk operations optimization
-   * @param rideData The ride data from the API
-   * @param parkId The park ID
-   * @param themeAreaId The theme area ID
-   * @param isDirectRide Whether this is a direct ride or within a theme area
-   * @returns Object with newEntries and skippedEntries counts
-   */
-  private async processRide(
-    rideData: any,
-    parkId: number,
-    themeAreaId: number,
-    isDirectRide: boolean,
-  ): Promise<{ newEntries: number; skippedEntries: number }> {
-    let newEntries = 0;
-    let skippedEntries = 0;
-
-    try {
-      // Use upsert to create or update ride efficiently
-      await this.rideRepository.upsert(
-        {
-          queueTimesId: rideData.id,
-          name: rideData.name,
-          park: { id: parkId } as Park,
-          themeArea: { id: themeAreaId } as ThemeArea,
-          isActive: true,
-        },
-        ['queueTimesId', 'park'],
-      );
-
-      // Store queue time data only if it has valid wait time
-      if (typeof rideData.wait_time === 'number') {
-        const lastUpdatedTime = rideData.last_updated
-          ? new Date(rideData.last_updated)
-          : new Date();
-
-        try {
-          // Use a more efficient approach with a single insert query and ON CONFLICT handling
-          const insertResult = await this.queueTimeRepository
-            .createQueryBuilder()
-            .insert()
-            .into(QueueTime)
-            .values({
-              ride: () =>
-                `(SELECT r.id FROM ride r WHERE r.queueTimesId = ${rideData.id} AND r.parkId = ${parkId})`,
-              waitTime: Math.max(0, rideData.wait_time),
-              isOpen: rideData.is_open,
-              lastUpdated: lastUpdatedTime,
-              recordedAt: new Date(),
-            })
-            .onConflict(`DO NOTHING`) // Skip if duplicate based on any unique constraints
-            .execute();
-
-          // Check if a new row was inserted
-          if (insertResult.identifiers && insertResult.identifiers.length > 0) {
-            newEntries++;
-          } else {
-            skippedEntries++;
-          }
-        } catch (error) {
-          // Handle constraint violations gracefully
-          if (
-            error.code === '23505' ||
-            error.message.includes('duplicate key') ||
-            error.message.includes('unique constraint')
-          ) {
-            skippedEntries++;
-          } else {
-            this.logger.warn(
-              `Error saving queue time for ${isDirectRide ? 'direct ' : ''}ride ${rideData.name}: ${error.message}`,
-            );
-            // Try fallback approach for reliability
-            try {
-              const existingCount = await this.queueTimeRepository.count({
-                where: {
-                  ride: { queueTimesId: rideData.id, park: { id: parkId } },
-                  lastUpdated: lastUpdatedTime,
-                  waitTime: Math.max(0, rideData.wait_time),
-                },
-              });
-
-              if (existingCount === 0) {
-                const queueTime = this.queueTimeRepository.create({
-                  ride: {
-                    queueTimesId: rideData.id,
-                    park: { id: parkId },
-                  } as any,
-                  waitTime: Math.max(0, rideData.wait_time),
-                  isOpen: rideData.is_open,
-                  lastUpdated: lastUpdatedTime,
-                  recordedAt: new Date(),
-                });
-
-                await this.queueTimeRepository.save(queueTime);
-                newEntries++;
-              } else {
-                skippedEntries++;
-              }
-            } catch (fallbackError) {
-              this.logger.warn(
-                `Fallback save also failed for ride ${rideData.name}: ${fallbackError.message}`,
-              );
-              skippedEntries++;
-            }
-          }
-        }
-      }
-    } catch (rideProcessingError) {
-      this.logger.warn(
-        `Error processing ${isDirectRide ? 'direct ' : ''}ride ${rideData.name}: ${rideProcessingError.message}`,
-      );
-      skippedEntries++;
-    }
-
-    return { newEntries, skippedEntries };
-  }
-
-  /**
-   * Clean up any existing duplicate queue time entries
-   * This should be run once to clean up data from before duplicate prevention was implemented
-   */
-  async cleanupDuplicateQueueTimes(): Promise<{ removedCount: number }> {
-    this.logger.log('Starting cleanup of duplicate queue time entries...');
-
-    // Find duplicates based on ride, lastUpdated, and waitTime
-    const duplicates = await this.queueTimeRepository
-      .createQueryBuilder('qt1')
-      .select('qt1.id')
-      .where((qb) => {
-        const subQuery = qb
-          .subQuery()
-          .select('MIN(qt2.id)')
-          .from(QueueTime, 'qt2')
-          .where('qt2.ride = qt1.ride')
-          .andWhere('qt2.lastUpdated = qt1.lastUpdated')
-          .andWhere('qt2.waitTime = qt1.waitTime')
-          .getQuery();
-        return 'qt1.id != (' + subQuery + ')';
-      })
-      .getMany();
-
-    if (duplicates.length > 0) {
-      const duplicateIds = duplicates.map((d) => d.id);
-      await this.queueTimeRepository.delete(duplicateIds);
-      this.logger.log(
-        `Removed ${duplicates.length} duplicate queue time entries`,
-      );
-    } else {
-      this.logger.log('No duplicate queue time entries found');
-    }
-
-    return { removedCount: duplicates.length };
-  }
-
   /**
    * Helper method to chunk an array into smaller batches
    */
@@ -415,27 +329,90 @@ export class QueueTimesParserService {
   }
 
   /**
-   * Process queue times for a single park with full bulk optimization
+   * Process a single park and capture its outcome for the ingestion ledger
+   * and the park's circuit breaker
+   * Never throws - failures are reported in the returned outcome
    */
-  private async processParkQueueTimes(
+  private async processParkWithOutcome(
     park: any,
-  ): Promise<{ newEntries: number; skippedEntries: number }> {
-    const url = `https://queue-times.com/parks/${park.queueTimesId}/queue_times.json`;
+  ): Promise<ParkIngestionOutcome> {
+    const startTime = Date.now();
 
     try {
-      const response = await axios.get(url, {
-        timeout: 15000, // 15 second timeout
-        headers: {
-          'User-Agent': this.userAgent,
-          Accept: 'application/json',
-        },
-      });
+      const result = await this.processParkQueueTimes(park);
+      await this.circuitBreaker.recordSuccess(park.id);
+      return {
+        parkId: park.id,
+        success: true,
+        httpStatus: 200,
+        durationMs: Date.now() - startTime,
+        newEntries: result.newEntries,
+        skippedEntries: result.skippedEntries,
+        openRides: result.openRides,
+        malformed: false,
+        errorMessage: null,
+      };
+    } catch (error) {
+      await this.circuitBreaker.recordFailure(
+        park.id,
+        error?.message || 'Unknown error',
+      );
+      return {
+        parkId: park.id,
+        success: false,
+        httpStatus: axios.isAxiosError(error)
+          ? (error.response?.status ?? null)
+          : null,
+        durationMs: Date.now() - startTime,
+        newEntries: 0,
+        skippedEntries: 0,
+        openRides: 0,
+        malformed: error instanceof MalformedPayloadError,
+        errorMessage: error?.message || 'Unknown error',
+      };
+    }
+  }
 
-      const data = response.data;
+  /**
+   * Process queue times for a single park with full bulk optimization
+   */
+  private async processParkQueueTimes(park: any): Promise<{
+    newEntries: number;
+    skippedEntries: number;
+    openRides: number;
+  }> {
+    try {
+      const data = await this.queueDataProvider.fetchQueueTimes(
+        park.queueTimesId,
+      );
+      // Replayed payloads are ingested as of their original fetch time
+      const fetchedAt =
+        this.queueDataProvider.getFetchedAt?.(data) ?? new Date();
+
+      // Archive before parsing so payloads that break the parser can be replayed
+      await this.payloadArchive.archiveQueueTimes(
+        park.queueTimesId,
+        data,
+        fetchedAt,
+      );
+
+      // Reject the whole payload before anything is persisted
+      const validationErrors = this.payloadValidation.validateQueueTimes(data);
+      if (validationErrors.length > 0) {
+        await this.payloadQuarantine.quarantine(
+          QuarantinedPayloadKind.QUEUE_TIMES,
+          this.queueDataProvider.name,
+          data,
+          validationErrors,
+          park.id,
+        );
+        throw new MalformedPayloadError('queue_times', validationErrors);
+      }
       const lands = data.lands || [];
 
       let parkNewEntries = 0;
       let parkSkippedEntries = 0;
+      let openRides = 0;
 
       // Collect all theme areas, rides, and queue times for batch processing
       const themeAreasToUpsert = [];
@@ -450,26 +427,29 @@ export class QueueTimesParserService {
         });
 
         for (const rideData of landData.rides) {
+          if (rideData.is_open) openRides++;
+
           ridesToUpsert.push({
             queueTimesId: rideData.id,
             name: rideData.name,
             park: { id: park.id } as Park,
             themeArea: { queueTimesId: landData.id } as any, // Will be resolved later
             isActive: true,
+            lastSeenAt: fetchedAt,
           });
 
           // Prepare queue time data if valid
           if (typeof rideData.wait_time === 'number') {
             const lastUpdatedTime = rideData.last_updated
               ? new Date(rideData.last_updated)
-              : new Date();
+              : fetchedAt;
 
             queueTimesToInsert.push({
               rideQueueTimesId: rideData.id,
               waitTime: Math.max(0, rideData.wait_time),
               isOpen: rideData.is_open,
               lastUpdated: lastUpdatedTime,
-              recordedAt: new Date(),
+              recordedAt: fetchedAt,
             });
           }
         }
@@ -509,6 +489,12 @@ export class QueueTimesParserService {
         themeArea: { id: themeAreaMap.get(ride.themeArea.queueTimesId) },
       }));
 
+      // Remember the known rides to detect added and returning rides
+      const existingRides = await this.rideRepository.find({
+        where: { park: { id: park.id } },
+        select: ['id', 'queueTimesId', 'isActive'],
+      });
+
       if (ridesWithThemeAreaIds.length > 0) {
         try {
           await this.rideRepository.upsert(ridesWithThemeAreaIds, [
@@ -523,59 +509,49 @@ export class QueueTimesParserService {
         }
       }
 
-      // Step 4: Process queue times individually for robustness
+      // Resolve all ride IDs of this park in one query
+      const rides = await this.rideRepository.find({
+        where: { park: { id: park.id } },
+        select: ['id', 'queueTimesId'],
+      });
+      const rideIdMap = new Map<number, number>(
+        rides.map((ride) => [ride.queueTimesId, ride.id]),
+      );
+
+      await this.updateRideLifecycle(
+        park,
+        existingRides,
+        rideIdMap,
+        new Set(ridesToUpsert.map((ride) => ride.queueTimesId)),
+        fetchedAt,
+      );
+
+      // Step 4: Insert all queue times in one statement
       if (queueTimesToInsert.length > 0) {
         this.logger.debug(
           `Processing ${queueTimesToInsert.length} queue times for park ${park.name}`,
         );
 
-        // Collect new queue times for cache update
-        const newQueueTimes = new Map<number, any>();
-
-        // Process each queue time individually to avoid complex bulk insert issues
-        const rideProcessingPromises = queueTimesToInsert.map(
-          async (qtData) => {
-            const result = await this.processIndividualQueueTime(
-              qtData,
-              park.id,
-            );
-
-            // If a new queue time was created, collect it for cache update
-            if (result.newEntries > 0 && result.queueTimeData) {
-              newQueueTimes.set(result.queueTimeData.rideId, {
-                waitTime: result.queueTimeData.waitTime,
-                isOpen: result.queueTimeData.isOpen,
-                lastUpdated: result.queueTimeData.lastUpdated,
-              });
-            }
-
-            return result;
-          },
+        const result = await this.insertQueueTimes(
+          park.id,
+          queueTimesToInsert,
+          rideIdMap,
+          fetchedAt,
         );
-
-        const rideResults = await Promise.allSettled(rideProcessingPromises);
-
-        // Aggregate results
-        rideResults.forEach((result) => {
-          if (result.status === 'fulfilled') {
-            parkNewEntries += result.value.newEntries;
-            parkSkippedEntries += result.value.skippedEntries;
-          } else {
-            this.logger.warn(
-              `Individual queue time processing failed:`,
-              result.reason,
-            );
-            parkSkippedEntries++;
-          }
-        });
+        parkNewEntries += result.newEntries;
+        parkSkippedEntries += result.skippedEntries;
 
         // Update cache with new queue times for this park
-        if (newQueueTimes.size > 0) {
-          await this.updateQueueTimesCache(newQueueTimes);
+        if (result.insertedQueueTimes.size > 0) {
+          await this.updateQueueTimesCache(result.insertedQueueTimes);
         }
       }
 
-      return { newEntries: parkNewEntries, skippedEntries: parkSkippedEntries };
+      return {
+        newEntries: parkNewEntries,
+        skippedEntries: parkSkippedEntries,
+        openRides,
+      };
     } catch (error) {
       // If the entire park fails (e.g., network error, park not found)
       this.logger.error(
@@ -587,80 +563,218 @@ export class QueueTimesParserService {
   }
 
   /**
-   * Fallback method for individual queue time processing
+   * Track ride lifecycle for a park after its rides were upserted:
+   * records newly added and returning rides and retires rides that
+   * have been missing from the upstream feed for RIDE_RETIREMENT_DAYS before seenAt
+   */
+  private async updateRideLifecycle(
+    park: any,
+    existingRides: Ride[],
+    rideIdMap: Map<number, number>,
+    seenQueueTimesIds: Set<number>,
+    seenAt: Date,
+  ): Promise<void> {
+    try {
+      const existingByQueueTimesId = new Map(
+        existingRides.map((ride) => [ride.queueTimesId, ride]),
+      );
+
+      const addedRideIds = [];
+      const reactivatedRideIds = [];
+      for (const queueTimesId of seenQueueTimesIds) {
+        const existingRide = existingByQueueTimesId.get(queueTimesId);
+        if (!existingRide) {
+          const rideId = rideIdMap.get(queueTimesId);
+          if (rideId) addedRideIds.push(rideId);
+        } else if (!existingRide.isActive) {
+          reactivatedRideIds.push(existingRide.id);
+        }
+      }
+
+      await this.rideEventsService.recordEvents(
+        park.id,
+        addedRideIds,
+        RideEventType.ADDED,
+        seenAt,
+      );
+      await this.rideEventsService.recordEvents(
+        park.id,
+        reactivatedRideIds,
+        RideEventType.REACTIVATED,
+        seenAt,
+      );
+
+      // An empty feed is more likely an upstream problem than every ride being removed
+      if (seenQueueTimesIds.size === 0) return;
+
+      const retirementDays = this.configService.get<number>(
+        'RIDE_RETIREMENT_DAYS',
+        7,
+      );
+      const cutoffDate = new Date(seenAt);
+      cutoffDate.setDate(cutoffDate.getDate() - retirementDays);
+
+      const retiredRows: Array<{ id: number }> = await this.rideRepository
+        .query(
+          `
+          UPDATE ride SET "isActive" = false
+          WHERE "parkId" = $1
+            AND "isActive" = true
+            AND "lastSeenAt" < $2
+          RETURNING id
+          `,
+          [park.id, cutoffDate.toISOString()],
+        )
+        .then(([rows]) => rows);
+
+      const retiredRideIds = retiredRows.map((row) => row.id);
+      if (retiredRideIds.length > 0) {
+        await this.rideEventsService.recordEvents(
+          park.id,
+          retiredRideIds,
+          RideEventType.RETIRED,
+          seenAt,
+        );
+
+        // Drop cached live data so retired rides no longer count as open
+        await Promise.all(
+          retiredRideIds.map((rideId) =>
+            this.cacheService.deleteAsync(`latest_queue_time_${rideId}`),
+          ),
+        );
+      }
+
+      if (
+        addedRideIds.length > 0 ||
+        reactivatedRideIds.length > 0 ||
+        retiredRideIds.length > 0
+      ) {
+        this.logger.log(
+          `Ride lifecycle for park ${park.name}: ${addedRideIds.length} added, ${reactivatedRideIds.length} reactivated, ${retiredRideIds.length} retired`,
+        );
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Failed to update ride lifecycle for park ${park.name}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Insert queue times for a park using the resolved ride IDs and a single
+   * INSERT ... ON CONFLICT DO NOTHING guarded by the (ride, lastUpdated) unique constraint.
+   * Anomalous wait times are stored flagged as suspect, judged by the history up to
+   * fetchedAt so that replays flag the same samples as live ingestion.
+   * @returns Counts plus the inserted rows keyed by ride ID for cache updates
    */
-  private async processIndividualQueueTime(
-    qtData: any,
+  private async insertQueueTimes(
     parkId: number,
+    queueTimes: Array<{
+      rideQueueTimesId: number;
+      waitTime: number;
+      isOpen: boolean;
+      lastUpdated: Date;
+      recordedAt: Date;
+    }>,
+    rideIdMap: Map<number, number>,
+    fetchedAt: Date,
   ): Promise<{
     newEntries: number;
     skippedEntries: number;
-    queueTimeData?: any;
+    insertedQueueTimes: Map<number, any>;
   }> {
-    try {
-      // First, find the actual ride entity to get its database ID
-      const ride = await this.rideRepository.findOne({
-        where: {
-          queueTimesId: qtData.rideQueueTimesId,
-          park: { id: parkId },
-        },
-        select: ['id'],
-      });
-
-      if (!ride) {
+    const insertedQueueTimes = new Map<number, any>();
+
+    const values: Array<
+      Pick<
+        QueueTime,
+        | 'ride'
+        | 'waitTime'
+        | 'isOpen'
+        | 'lastUpdated'
+        | 'recordedAt'
+        | 'suspect'
+        | 'anomaly'
+      >
+    > = [];
+    for (const qtData of queueTimes) {
+      const rideId = rideIdMap.get(qtData.rideQueueTimesId);
+      if (!rideId) {
         this.logger.warn(
           `Ride with queueTimesId ${qtData.rideQueueTimesId} not found for park ${parkId}`,
         );
-        return { newEntries: 0, skippedEntries: 1 };
+        continue;
       }
 
-      // Check for existing queue time using the actual ride ID
-      const existingCount = await this.queueTimeRepository.count({
-        where: {
-          ride: { id: ride.id },
-          lastUpdated: qtData.lastUpdated,
-          waitTime: qtData.waitTime,
-        },
+      values.push({
+        ride: { id: rideId } as Ride,
+        waitTime: qtData.waitTime,
+        isOpen: qtData.isOpen,
+        lastUpdated: qtData.lastUpdated,
+        recordedAt: qtData.recordedAt,
+        suspect: false,
+        anomaly: null,
       });
+    }
 
-      if (existingCount === 0) {
-        // Create queue time with proper ride reference
-        const queueTime = this.queueTimeRepository.create({
-          ride: { id: ride.id } as Ride,
-          waitTime: qtData.waitTime,
-          isOpen: qtData.isOpen,
-          lastUpdated: qtData.lastUpdated,
-          recordedAt: qtData.recordedAt,
-        });
+    if (values.length === 0) {
+      return {
+        newEntries: 0,
+        skippedEntries: queueTimes.length,
+        insertedQueueTimes,
+      };
+    }
 
-        await this.queueTimeRepository.save(queueTime);
-
-        // Return queue time data for cache update
-        return {
-          newEntries: 1,
-          skippedEntries: 0,
-          queueTimeData: {
-            rideId: ride.id,
-            waitTime: qtData.waitTime,
-            isOpen: qtData.isOpen,
-            lastUpdated: qtData.lastUpdated,
-          },
-        };
-      } else {
-        return { newEntries: 0, skippedEntries: 1 };
-      }
-    } catch (error) {
-      // Handle unique constraint violations gracefully
-      if (
-        error.code === '23505' ||
-        error.message.includes('duplicate key value violates unique constraint')
-      ) {
-        return { newEntries: 0, skippedEntries: 1 };
+    const anomalies = await this.waitTimeAnomaly.detect(
+      parkId,
+      values.map((value) => ({
+        rideId: value.ride.id,
+        waitTime: value.waitTime,
+        isOpen: value.isOpen,
+        lastUpdated: value.lastUpdated,
+      })),
+      fetchedAt,
+    );
+    if (anomalies.size > 0) {
+      for (const value of values) {
+        const anomaly = anomalies.get(value.ride.id);
+        if (anomaly) {
+          value.suspect = true;
+          value.anomaly = anomaly;
+        }
       }
+      this.logger.debug(
+        `Flagged ${anomalies.size} suspect wait times for park ${parkId}`,
+      );
+    }
 
-      this.logger.warn(`Error in individual queue time processing:`, error);
-      return { newEntries: 0, skippedEntries: 1 };
+    // Rows that already exist for (ride, lastUpdated) are skipped by the database
+    const insertResult = await this.queueTimeRepository
+      .createQueryBuilder()
+      .insert()
+      .into(QueueTime)
+      .values(values)
+      .orIgnore()
+      .returning(
+        '"id", "rideId", "waitTime", "isOpen", "lastUpdated", "suspect"',
+      )
+      .execute();
+
+    const insertedRows: any[] = insertResult.raw || [];
+    for (const row of insertedRows) {
+      insertedQueueTimes.set(row.rideId, {
+        waitTime: row.waitTime,
+        isOpen: row.isOpen,
+        lastUpdated: row.lastUpdated,
+        suspect: row.suspect,
+      });
     }
+
+    return {
+      newEntries: insertedRows.length,
+      skippedEntries: queueTimes.length - insertedRows.length,
+      insertedQueueTimes,
+    };
   }
 
   /**
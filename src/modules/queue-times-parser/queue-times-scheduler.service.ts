@@ -1,14 +1,73 @@
 import { Injectable, OnModuleInit, Logger } from '@nestjs/common';
 import { Cron, CronExpression } from '@nestjs/schedule';
+import { ConfigService } from '@nestjs/config';
 import { QueueTimesParserService } from './queue-times-parser.service';
+import { IngestionRunService } from './ingestion-run.service.js';
+import { IngestionTrigger } from './ingestion-run.entity.js';
+import { ParkPollScheduleService } from './park-poll-schedule.service.js';
+import { ParkCircuitBreakerService } from '../parks/park-circuit-breaker.service.js';
+import { ParkOperatingHoursService } from '../parks/park-operating-hours.service.js';
+import { DistributedLockService } from '../utils/distributed-lock.service.js';
+import { PayloadArchiveService } from './payload-archive.service.js';
+import { PayloadQuarantineService } from './payload-quarantine.service.js';
+import { RideDowntimeService } from '../rides/ride-downtime.service.js';
+import { RideReliabilityService } from '../rides/ride-reliability.service.js';
+import { QueueTimeRollupService } from '../rides/queue-time-rollup.service.js';
+import { QueueTimeRetentionService } from '../rides/queue-time-retention.service.js';
+import { QueueTimePartitionService } from '../rides/queue-time-partition.service.js';
+import { RideCrowdBaselineService } from '../rides/ride-crowd-baseline.service.js';
+import { ReliabilityWindow } from '../parks/ride-reliability.entity.js';
 
 @Injectable()
 export class QueueTimesScheduler implements OnModuleInit {
   private readonly logger = new Logger(QueueTimesScheduler.name);
   private initialDataFetchCompleted = false;
 
-  constructor(private readonly parser: QueueTimesParserService) {}
+  // Jobs only run on the instance holding their lease
+  private readonly LEASE_TTL_MS = 2 * 60 * 1000;
+  private readonly PARKS_LEASE = 'queue-times:parks';
+  private readonly QUEUE_TIMES_LEASE = 'queue-times:poll';
+  private readonly OPERATING_WINDOWS_LEASE = 'queue-times:operating-windows';
+  private readonly PRUNE_RUNS_LEASE = 'queue-times:prune-runs';
+  private readonly DOWNTIME_LEASE = 'queue-times:ride-downtime';
+  private readonly OPERATING_HOURS_LEASE = 'queue-times:operating-hours';
+  private readonly RELIABILITY_LEASE = 'queue-times:ride-reliability';
+  private readonly RELIABILITY_LEASE_TTL_MS = 10 * 60 * 1000;
+  private readonly COMPACTION_LEASE = 'queue-times:compaction';
+  private readonly COMPACTION_LEASE_TTL_MS = 10 * 60 * 1000;
+  private readonly PARTITIONS_LEASE = 'queue-times:partitions';
+  private readonly CROWD_BASELINE_LEASE = 'queue-times:crowd-baselines';
+
+  // Downtimes and operating hours of today and yesterday are re-derived as new samples arrive
+  private readonly DERIVATION_LOOKBACK_DAYS = 2;
+
+  constructor(
+    private readonly parser: QueueTimesParserService,
+    private readonly ingestionRunService: IngestionRunService,
+    private readonly pollScheduleService: ParkPollScheduleService,
+    private readonly circuitBreaker: ParkCircuitBreakerService,
+    private readonly operatingHours: ParkOperatingHoursService,
+    private readonly lockService: DistributedLockService,
+    private readonly payloadArchive: PayloadArchiveService,
+    private readonly payloadQuarantine: PayloadQuarantineService,
+    private readonly rideDowntimeService: RideDowntimeService,
+    private readonly rideReliability: RideReliabilityService,
+    private readonly queueTimeRollup: QueueTimeRollupService,
+    private readonly queueTimeRetention: QueueTimeRetentionService,
+    private readonly queueTimePartitions: QueueTimePartitionService,
+    private readonly crowdBaselines: RideCrowdBaselineService,
+    private readonly configService: ConfigService,
+  ) {}
+
   onModuleInit() {
+    // CLI commands boot the application without background jobs
+    if (
+      this.configService.get<string>('BACKGROUND_JOBS_ENABLED', 'true') ===
+      'false'
+    ) {
+      return;
+    }
+
     // Wait a bit for TypeORM to be ready, then start initial data fetch
     setTimeout(() => {
       void this.performInitialDataFetch();
@@ -21,14 +80,37 @@ export class QueueTimesScheduler implements OnModuleInit {
       // Check if database is ready by testing a simple query
       await this.waitForDatabase();
 
-      await this.parser.fetchAndStoreParks();
-      this.logger.log('Initial parks fetch completed');
+      const parksFetched = await this.lockService.runExclusive(
+        this.PARKS_LEASE,
+        this.LEASE_TTL_MS,
+        () => this.parser.fetchAndStoreParks(),
+      );
+      this.logger.log(
+        parksFetched
+          ? 'Initial parks fetch completed'
+          : 'Initial parks fetch skipped - lease not acquired',
+      );
 
       // Wait a moment before fetching queue times
       await new Promise((resolve) => setTimeout(resolve, 2000));
 
-      await this.parser.fetchAndStoreQueueTimes();
-      this.logger.log('Initial queue times fetch completed');
+      const queueTimesFetched = await this.lockService.runExclusive(
+        this.QUEUE_TIMES_LEASE,
+        this.LEASE_TTL_MS,
+        async () => {
+          const outcomes = await this.parser.fetchAndStoreQueueTimes(
+            IngestionTrigger.INITIAL,
+          );
+          await this.pollScheduleService.refreshOperatingWindows();
+          await this.pollScheduleService.recordPolls(outcomes);
+          await this.refreshRollups();
+        },
+      );
+      this.logger.log(
+        queueTimesFetched
+          ? 'Initial queue times fetch completed'
+          : 'Initial queue times fetch skipped - lease not acquired',
+      );
       this.initialDataFetchCompleted = true;
     } catch (error) {
       this.logger.error('Error during initial data fetch:', error);
@@ -64,10 +146,17 @@ export class QueueTimesScheduler implements OnModuleInit {
 
   @Cron(CronExpression.EVERY_DAY_AT_MIDNIGHT)
   async fetchParks() {
-    await this.parser.fetchAndStoreParks();
+    await this.lockService.runExclusive(
+      this.PARKS_LEASE,
+      this.LEASE_TTL_MS,
+      () => this.parser.fetchAndStoreParks(),
+    );
   }
 
-  @Cron('*/5 * * * *')
+  /**
+   * Poll parks whose next poll time has passed - see ParkPollScheduleService
+   */
+  @Cron(CronExpression.EVERY_MINUTE)
   async fetchQueueTimes() {
     // Wait for initial data fetch to complete before running scheduled updates
     if (!this.initialDataFetchCompleted) {
@@ -77,6 +166,224 @@ export class QueueTimesScheduler implements OnModuleInit {
       return;
     }
 
-    await this.parser.fetchAndStoreQueueTimes();
+    await this.lockService.runExclusive(
+      this.QUEUE_TIMES_LEASE,
+      this.LEASE_TTL_MS,
+      async () => {
+        // Parks with an open circuit are skipped until their backoff has elapsed
+        const dueParkIds = await this.circuitBreaker.filterAvailableParks(
+          await this.pollScheduleService.getDueParkIds(),
+        );
+        if (dueParkIds.length === 0) return;
+
+        const outcomes = await this.parser.fetchAndStoreQueueTimes(
+          IngestionTrigger.SCHEDULED,
+          dueParkIds,
+        );
+        await this.pollScheduleService.recordPolls(outcomes);
+        await this.refreshRollups();
+      },
+    );
+  }
+
+  /**
+   * Bring the queue time rollups up to date with the samples of the last ingestion run.
+   * Failures are retried by the next run as the refresh starts from the last watermark.
+   */
+  private async refreshRollups() {
+    try {
+      await this.queueTimeRollup.refreshIncremental();
+    } catch (error) {
+      this.logger.error('Failed to refresh queue time rollups:', error);
+    }
+  }
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async refreshOperatingWindows() {
+    if (!this.initialDataFetchCompleted) return;
+
+    try {
+      await this.lockService.runExclusive(
+        this.OPERATING_WINDOWS_LEASE,
+        this.LEASE_TTL_MS,
+        () => this.pollScheduleService.refreshOperatingWindows(),
+      );
+    } catch (error) {
+      this.logger.error('Failed to refresh park operating windows:', error);
+    }
+  }
+
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async deriveRideDowntimes() {
+    if (!this.initialDataFetchCompleted) return;
+
+    try {
+      await this.lockService.runExclusive(
+        this.DOWNTIME_LEASE,
+        this.LEASE_TTL_MS,
+        () => {
+          const since = new Date();
+          since.setDate(since.getDate() - this.DERIVATION_LOOKBACK_DAYS);
+          return this.rideDowntimeService.deriveDowntimes(since);
+        },
+      );
+    } catch (error) {
+      this.logger.error('Failed to derive ride downtimes:', error);
+    }
+  }
+
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async inferOperatingHours() {
+    if (!this.initialDataFetchCompleted) return;
+
+    try {
+      await this.lockService.runExclusive(
+        this.OPERATING_HOURS_LEASE,
+        this.LEASE_TTL_MS,
+        () => {
+          const since = new Date();
+          since.setDate(since.getDate() - this.DERIVATION_LOOKBACK_DAYS);
+          return this.operatingHours.inferOperatingDays(since);
+        },
+      );
+    } catch (error) {
+      this.logger.error('Failed to infer park operating hours:', error);
+    }
+  }
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async refreshShortTermReliability() {
+    await this.refreshReliability([7, 30]);
+  }
+
+  // The yearly window scans a year of samples, so it is refreshed once a day
+  @Cron(CronExpression.EVERY_DAY_AT_3AM)
+  async refreshYearlyReliability() {
+    await this.refreshReliability([365]);
+  }
+
+  private async refreshReliability(windows: ReliabilityWindow[]) {
+    if (!this.initialDataFetchCompleted) return;
+
+    try {
+      await this.lockService.runExclusive(
+        this.RELIABILITY_LEASE,
+        this.RELIABILITY_LEASE_TTL_MS,
+        async () => {
+          for (const windowDays of windows) {
+            await this.rideReliability.refresh(windowDays);
+          }
+        },
+      );
+    } catch (error) {
+      this.logger.error('Failed to refresh ride reliability:', error);
+    }
+  }
+
+  /**
+   * Refresh the crowd baselines of rides with new rollups - see RideCrowdBaselineService
+   */
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async refreshCrowdBaselines() {
+    await this.refreshCrowdBaselinesWith(() =>
+      this.crowdBaselines.refreshIncremental(),
+    );
+  }
+
+  // Hours leaving the two-year window only change baselines in the full refresh
+  @Cron(CronExpression.EVERY_DAY_AT_6AM)
+  async refreshAllCrowdBaselines() {
+    await this.refreshCrowdBaselinesWith(() =>
+      this.crowdBaselines.refreshAll(),
+    );
+  }
+
+  private async refreshCrowdBaselinesWith(refresh: () => Promise<number>) {
+    if (!this.initialDataFetchCompleted) return;
+
+    try {
+      await this.lockService.runExclusive(
+        this.CROWD_BASELINE_LEASE,
+        this.LEASE_TTL_MS,
+        refresh,
+      );
+    } catch (error) {
+      this.logger.error('Failed to refresh crowd baselines:', error);
+    }
+  }
+
+  /**
+   * Delete or compress raw samples past the retention policy - see QueueTimeRetentionService
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_4AM)
+  async compactQueueTimes() {
+    if (!this.initialDataFetchCompleted || !this.queueTimeRetention.isEnabled())
+      return;
+
+    try {
+      await this.lockService.runExclusive(
+        this.COMPACTION_LEASE,
+        this.COMPACTION_LEASE_TTL_MS,
+        () => this.queueTimeRetention.compact(),
+      );
+    } catch (error) {
+      this.logger.error('Failed to compact queue times:', error);
+    }
+  }
+
+  /**
+   * Create upcoming monthly partitions and detach expired ones - see QueueTimePartitionService
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_5AM)
+  async maintainQueueTimePartitions() {
+    try {
+      await this.lockService.runExclusive(
+        this.PARTITIONS_LEASE,
+        this.LEASE_TTL_MS,
+        () => this.queueTimePartitions.maintain(),
+      );
+    } catch (error) {
+      this.logger.error('Failed to maintain queue time partitions:', error);
+    }
+  }
+
+  @Cron(CronExpression.EVERY_DAY_AT_1AM)
+  async pruneIngestionRuns() {
+    const retentionDays = this.configService.get<number>(
+      'INGESTION_RUN_RETENTION_DAYS',
+      30,
+    );
+    await this.lockService.runExclusive(
+      this.PRUNE_RUNS_LEASE,
+      this.LEASE_TTL_MS,
+      async () => {
+        const removedCount =
+          await this.ingestionRunService.pruneRuns(retentionDays);
+        const removedPayloads =
+          await this.payloadQuarantine.prune(retentionDays);
+        this.logger.log(
+          `Pruned ${removedCount} ingestion runs and ${removedPayloads} quarantined payloads older than ${retentionDays} days`,
+        );
+      },
+    );
+  }
+
+  // The archive is on each instance's local disk, so every instance prunes its own
+  @Cron(CronExpression.EVERY_DAY_AT_2AM)
+  async prunePayloadArchive() {
+    const retentionDays = this.configService.get<number>(
+      'PAYLOAD_ARCHIVE_RETENTION_DAYS',
+      14,
+    );
+    try {
+      const removedDays = await this.payloadArchive.prune(retentionDays);
+      if (removedDays > 0) {
+        this.logger.log(
+          `Pruned ${removedDays} days of archived payloads older than ${retentionDays} days`,
+        );
+      }
+    } catch (error) {
+      this.logger.error('Failed to prune archived payloads:', error);
+    }
   }
 }
@@ -0,0 +1,131 @@
+import {
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  UpstreamLand,
+  UpstreamPark,
+  UpstreamParkGroup,
+  UpstreamQueueTimes,
+  UpstreamRide,
+} from './queue-data-provider.interface.js';
+
+/**
+ * Declared schemas of the upstream payloads, validated before anything is persisted.
+ * Unknown properties are tolerated so upstream additions do not break ingestion.
+ */
+
+export class UpstreamParkSchema implements UpstreamPark {
+  @IsInt()
+  id: number;
+
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsString()
+  country: string;
+
+  @IsString()
+  continent: string;
+
+  @IsNotEmpty()
+  latitude: string | number;
+
+  @IsNotEmpty()
+  longitude: string | number;
+
+  @IsString()
+  @IsNotEmpty()
+  timezone: string;
+}
+
+export class UpstreamParkGroupSchema implements UpstreamParkGroup {
+  @IsInt()
+  id: number;
+
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => UpstreamParkSchema)
+  parks: UpstreamParkSchema[];
+}
+
+export class UpstreamRideSchema implements UpstreamRide {
+  @IsInt()
+  id: number;
+
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsBoolean()
+  is_open: boolean;
+
+  @ValidateIf((ride: UpstreamRideSchema) => ride.wait_time !== null)
+  @IsInt()
+  @Min(0)
+  wait_time: number | null;
+
+  @ValidateIf((ride: UpstreamRideSchema) => ride.last_updated !== null)
+  @IsDateString()
+  last_updated: string | null;
+}
+
+export class UpstreamLandSchema implements UpstreamLand {
+  @IsInt()
+  id: number;
+
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => UpstreamRideSchema)
+  rides: UpstreamRideSchema[];
+}
+
+export class UpstreamQueueTimesSchema implements UpstreamQueueTimes {
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => UpstreamLandSchema)
+  lands: UpstreamLandSchema[];
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => UpstreamRideSchema)
+  rides?: UpstreamRideSchema[];
+}
+
+/**
+ * Thrown when an upstream payload does not match its schema
+ */
+export class MalformedPayloadError extends Error {
+  constructor(
+    readonly kind: string,
+    readonly validationErrors: string[],
+  ) {
+    super(
+      `Malformed ${kind} payload: ${validationErrors.slice(0, 3).join('; ')}${
+        validationErrors.length > 3
+          ? ` (+${validationErrors.length - 3} more)`
+          : ''
+      }`,
+    );
+    this.name = MalformedPayloadError.name;
+  }
+}
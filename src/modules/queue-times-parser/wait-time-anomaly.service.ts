@@ -0,0 +1,243 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { QueueTime, WaitTimeAnomaly } from '../parks/queue-time.entity.js';
+import { CacheService } from '../utils/cache.service.js';
+
+/**
+ * Incoming wait time sample to check
+ */
+export interface WaitTimeSample {
+  rideId: number;
+  waitTime: number;
+  isOpen: boolean;
+  lastUpdated: Date;
+}
+
+/**
+ * Recent wait time profile of a ride, built from non-suspect open samples
+ */
+interface RideWaitTimeProfile {
+  samples: number;
+  p99: number;
+}
+
+/**
+ * Flags implausible wait times before they are stored:
+ * - implausible: above ANOMALY_MAX_WAIT_TIME
+ * - outlier: far above the 99th percentile of the ride's recent history
+ * - stale: the same wait time reported for ANOMALY_STALE_HOURS while the ride is open
+ * Flagged samples are still stored, marked as suspect.
+ */
+@Injectable()
+export class WaitTimeAnomalyService {
+  private readonly logger = new Logger(WaitTimeAnomalyService.name);
+
+  private readonly HISTORY_WINDOW_DAYS = 14;
+  private readonly PROFILE_CACHE_TTL_SECONDS = 3600;
+  // Outliers must also exceed the 99th percentile by this many minutes
+  private readonly OUTLIER_MIN_MARGIN_MINUTES = 30;
+
+  private readonly maxWaitTime: number;
+  private readonly outlierFactor: number;
+  private readonly minHistorySamples: number;
+  private readonly staleHours: number;
+  private readonly staleMinWaitTime: number;
+
+  constructor(
+    @InjectRepository(QueueTime)
+    private readonly queueTimeRepository: Repository<QueueTime>,
+    private readonly cacheService: CacheService,
+    private readonly configService: ConfigService,
+  ) {
+    this.maxWaitTime = Number(
+      this.configService.get('ANOMALY_MAX_WAIT_TIME', 300),
+    );
+    this.outlierFactor = Number(
+      this.configService.get('ANOMALY_OUTLIER_FACTOR', 2.5),
+    );
+    this.minHistorySamples = Number(
+      this.configService.get('ANOMALY_MIN_HISTORY_SAMPLES', 50),
+    );
+    this.staleHours = Number(this.configService.get('ANOMALY_STALE_HOURS', 3));
+    this.staleMinWaitTime = Number(
+      this.configService.get('ANOMALY_STALE_MIN_WAIT_TIME', 10),
+    );
+  }
+
+  /**
+   * Check the samples of one park against the recent history of their rides.
+   * Detection never throws - without history no sample is flagged.
+   * @param fetchedAt Moment the samples were fetched, the end of the history window
+   * @returns Anomaly per ride ID, rides without anomaly are omitted
+   */
+  async detect(
+    parkId: number,
+    samples: WaitTimeSample[],
+    fetchedAt: Date = new Date(),
+  ): Promise<Map<number, WaitTimeAnomaly>> {
+    const anomalies = new Map<number, WaitTimeAnomaly>();
+    const openSamples = samples.filter(
+      (sample) => sample.isOpen && sample.waitTime > 0,
+    );
+    if (openSamples.length === 0) return anomalies;
+
+    for (const sample of openSamples) {
+      if (sample.waitTime > this.maxWaitTime) {
+        anomalies.set(sample.rideId, WaitTimeAnomaly.IMPLAUSIBLE);
+      }
+    }
+
+    try {
+      const profiles = await this.getRideProfiles(parkId, fetchedAt);
+      for (const sample of openSamples) {
+        if (anomalies.has(sample.rideId)) continue;
+        const profile = profiles[sample.rideId];
+        if (!profile || profile.samples < this.minHistorySamples) continue;
+
+        const threshold = Math.max(
+          profile.p99 * this.outlierFactor,
+          profile.p99 + this.OUTLIER_MIN_MARGIN_MINUTES,
+        );
+        if (sample.waitTime > threshold) {
+          anomalies.set(sample.rideId, WaitTimeAnomaly.OUTLIER);
+        }
+      }
+
+      const staleRideIds = await this.findStaleRides(
+        openSamples.filter(
+          (sample) =>
+            !anomalies.has(sample.rideId) &&
+            sample.waitTime >= this.staleMinWaitTime,
+        ),
+      );
+      for (const rideId of staleRideIds) {
+        anomalies.set(rideId, WaitTimeAnomaly.STALE);
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Failed to check wait times of park ${parkId} against history: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+
+    return anomalies;
+  }
+
+  /**
+   * Wait time profiles of all rides of a park up to a moment. Profiles of the last hour
+   * are cached for an hour, older ones (e.g. of replayed payloads) are always computed.
+   */
+  private async getRideProfiles(
+    parkId: number,
+    until: Date,
+  ): Promise<Record<number, RideWaitTimeProfile>> {
+    const cacheKey = `wait_time_profiles_park_${parkId}`;
+    const cacheable =
+      Date.now() - until.getTime() < this.PROFILE_CACHE_TTL_SECONDS * 1000;
+    if (cacheable) {
+      const cached =
+        await this.cacheService.getAsync<Record<number, RideWaitTimeProfile>>(
+          cacheKey,
+        );
+      if (cached) return cached;
+    }
+
+    const cutoffDate = new Date(until);
+    cutoffDate.setDate(cutoffDate.getDate() - this.HISTORY_WINDOW_DAYS);
+
+    const rows: Array<{ rideId: number; samples: string; p99: string }> =
+      await this.queueTimeRepository.query(
+        `
+        SELECT qt."rideId" AS "rideId",
+               COUNT(*) AS samples,
+               PERCENTILE_CONT(0.99) WITHIN GROUP (ORDER BY qt."waitTime") AS p99
+        FROM queue_time qt
+        INNER JOIN ride r ON r.id = qt."rideId"
+        WHERE r."parkId" = $1
+          AND qt."lastUpdated" >= $2
+          AND qt."lastUpdated" < $3
+          AND qt."isOpen" = true
+          AND qt."waitTime" > 0
+          AND qt.suspect = false
+        GROUP BY qt."rideId"
+        `,
+        [parkId, cutoffDate.toISOString(), until.toISOString()],
+      );
+
+    const profiles: Record<number, RideWaitTimeProfile> = {};
+    for (const row of rows) {
+      profiles[row.rideId] = {
+        samples: parseInt(row.samples, 10),
+        p99: parseFloat(row.p99),
+      };
+    }
+
+    if (cacheable) {
+      await this.cacheService.setAsync(
+        cacheKey,
+        profiles,
+        this.PROFILE_CACHE_TTL_SECONDS,
+      );
+    }
+    return profiles;
+  }
+
+  /**
+   * Rides whose open wait time has not changed for at least ANOMALY_STALE_HOURS
+   * up to the sample, judged by the samples already stored
+   */
+  private async findStaleRides(samples: WaitTimeSample[]): Promise<number[]> {
+    if (samples.length === 0) return [];
+
+    const lookbackStart = new Date(
+      Math.min(...samples.map((sample) => sample.lastUpdated.getTime())) -
+        2 * this.staleHours * 3600 * 1000,
+    );
+
+    const rows: Array<{
+      rideId: number;
+      waitTime: number;
+      lastUpdated: Date;
+      lastChangeAt: Date | null;
+      firstSeenAt: Date | null;
+    }> = await this.queueTimeRepository.query(
+      `
+      SELECT candidate."rideId" AS "rideId",
+             candidate."waitTime" AS "waitTime",
+             candidate."lastUpdated" AS "lastUpdated",
+             MAX(qt."lastUpdated") FILTER (
+               WHERE qt."waitTime" <> candidate."waitTime" OR qt."isOpen" = false
+             ) AS "lastChangeAt",
+             MIN(qt."lastUpdated") AS "firstSeenAt"
+      FROM UNNEST($1::int[], $2::int[], $3::timestamptz[])
+        AS candidate("rideId", "waitTime", "lastUpdated")
+      INNER JOIN queue_time qt
+        ON qt."rideId" = candidate."rideId"
+       AND qt."lastUpdated" >= $4
+       AND qt."lastUpdated" < candidate."lastUpdated"
+      GROUP BY candidate."rideId", candidate."waitTime", candidate."lastUpdated"
+      `,
+      [
+        samples.map((sample) => sample.rideId),
+        samples.map((sample) => sample.waitTime),
+        samples.map((sample) => sample.lastUpdated),
+        lookbackStart.toISOString(),
+      ],
+    );
+
+    const staleMs = this.staleHours * 3600 * 1000;
+    return rows
+      .filter((row) => {
+        // Unchanged since the last differing sample, or across the whole lookback
+        const unchangedSince = row.lastChangeAt ?? row.firstSeenAt;
+        return (
+          unchangedSince !== null &&
+          new Date(row.lastUpdated).getTime() -
+            new Date(unchangedSince).getTime() >=
+            staleMs
+        );
+      })
+      .map((row) => row.rideId);
+  }
+}
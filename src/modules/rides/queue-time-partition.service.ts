@@ -0,0 +1,258 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+import { QueueTime } from '../parks/queue-time.entity.js';
+
+export interface QueueTimePartitionReport {
+  created: string[]; // Partitions created, oldest first
+  detached: string[];
+  dropped: string[]; // Detached partitions that were empty
+}
+
+/**
+ * Keeps queue_time range-partitioned by month of lastUpdated (UTC), one partition per
+ * month named queue_time_YYYY_MM plus queue_time_default for samples outside of them.
+ * The partitioned table itself is created by the PartitionQueueTime migration. On
+ * startup and daily, maintenance creates the partitions of the current and coming months, moves
+ * samples that landed in the default partition (e.g. imports of old history) into their
+ * own month, and detaches months whose samples every park's retention policy has
+ * deleted - see QueueTimeRetentionService. Startup only fails when queue_time is not
+ * partitioned; failed maintenance is logged and retried by the daily job.
+ */
+@Injectable()
+export class QueueTimePartitionService implements OnModuleInit {
+  private readonly logger = new Logger(QueueTimePartitionService.name);
+
+  private readonly MONTHS_AHEAD = 3;
+  private readonly DEFAULT_PARTITION = 'queue_time_default';
+  private readonly PARTITION_NAME_PATTERN = /^queue_time_(\d{4})_(\d{2})$/;
+  private readonly LOCK_KEY = 'queue_time_partitions';
+
+  constructor(
+    @InjectRepository(QueueTime)
+    private readonly queueTimeRepository: Repository<QueueTime>,
+  ) {}
+
+  async onModuleInit() {
+    await this.assertPartitioned();
+
+    // Maintenance failures must not stop the API, the daily job retries
+    try {
+      await this.maintain();
+    } catch (error) {
+      this.logger.error(
+        `Queue time partition maintenance failed on startup: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+  }
+
+  async maintain(): Promise<QueueTimePartitionReport> {
+    const report: QueueTimePartitionReport = {
+      created: [],
+      detached: [],
+      dropped: [],
+    };
+
+    const existing = new Set(await this.listPartitions());
+    const months = new Set(await this.findDefaultPartitionMonths());
+    const current = this.monthKey(new Date());
+    for (let offset = 0; offset <= this.MONTHS_AHEAD; offset++) {
+      months.add(this.addMonths(current, offset));
+    }
+
+    for (const month of Array.from(months).sort()) {
+      if (existing.has(this.partitionName(month))) continue;
+      const created = await this.withLock((manager) =>
+        this.createPartition(manager, month),
+      );
+      if (created) report.created.push(this.partitionName(month));
+    }
+
+    const horizon = await this.findDetachHorizon();
+    if (horizon) {
+      for (const name of Array.from(existing).sort()) {
+        const month = this.partitionMonth(name);
+        if (!month || this.monthStart(this.addMonths(month, 1)) > horizon) {
+          continue;
+        }
+
+        const outcome = await this.withLock((manager) =>
+          this.detachPartition(manager, name),
+        );
+        if (outcome) report.detached.push(name);
+        if (outcome === 'dropped') report.dropped.push(name);
+      }
+    }
+
+    if (report.created.length > 0 || report.detached.length > 0) {
+      this.logger.log(
+        `Queue time partitions: created ${report.created.join(', ') || 'none'}, detached ${report.detached.join(', ') || 'none'}`,
+      );
+    }
+    return report;
+  }
+
+  /**
+   * Attach the partition of a month, moving its samples out of the default partition.
+   * Returns false when another instance created it first.
+   */
+  private async createPartition(
+    manager: EntityManager,
+    month: string,
+  ): Promise<boolean> {
+    const name = this.partitionName(month);
+    const [{ exists }]: Array<{ exists: boolean }> = await manager.query(
+      `SELECT to_regclass($1) IS NOT NULL AS exists`,
+      [name],
+    );
+    if (exists) return false;
+
+    const from = this.monthStart(month).toISOString();
+    const to = this.monthStart(this.addMonths(month, 1)).toISOString();
+
+    await manager.query(
+      `CREATE TABLE "${name}" (LIKE queue_time INCLUDING DEFAULTS)`,
+    );
+    await manager.query(
+      `
+      WITH moved AS (
+        DELETE FROM ${this.DEFAULT_PARTITION}
+        WHERE "lastUpdated" >= $1 AND "lastUpdated" < $2
+        RETURNING *
+      )
+      INSERT INTO "${name}" SELECT * FROM moved
+      `,
+      [from, to],
+    );
+    await manager.query(
+      `ALTER TABLE queue_time ATTACH PARTITION "${name}" FOR VALUES FROM ('${from}') TO ('${to}')`,
+    );
+    return true;
+  }
+
+  /**
+   * Detach an expired partition and drop it when empty. Non-empty partitions stay as
+   * standalone tables to be archived. Returns null when another instance detached it first.
+   */
+  private async detachPartition(
+    manager: EntityManager,
+    name: string,
+  ): Promise<'dropped' | 'kept' | null> {
+    const [{ attached }]: Array<{ attached: boolean }> = await manager.query(
+      `
+      SELECT EXISTS (
+        SELECT 1 FROM pg_inherits
+        WHERE inhrelid = to_regclass($1) AND inhparent = 'queue_time'::regclass
+      ) AS attached
+      `,
+      [name],
+    );
+    if (!attached) return null;
+
+    await manager.query(`ALTER TABLE queue_time DETACH PARTITION "${name}"`);
+
+    const [{ remaining }]: Array<{ remaining: boolean }> = await manager.query(
+      `SELECT EXISTS (SELECT 1 FROM "${name}") AS remaining`,
+    );
+    if (remaining) {
+      this.logger.warn(
+        `Detached queue time partition ${name} still holds samples, kept it as a standalone table`,
+      );
+      return 'kept';
+    }
+
+    await manager.query(`DROP TABLE "${name}"`);
+    return 'dropped';
+  }
+
+  /**
+   * Fail when queue_time is not partitioned, i.e. the migrations did not run
+   */
+  private async assertPartitioned(): Promise<void> {
+    const [{ partitioned }]: Array<{ partitioned: boolean }> = await this
+      .queueTimeRepository.query(`
+        SELECT EXISTS (
+          SELECT 1 FROM pg_partitioned_table
+          WHERE partrelid = to_regclass('queue_time')
+        ) AS partitioned
+      `);
+    if (!partitioned) {
+      throw new Error(
+        'queue_time is not partitioned - run the database migrations first',
+      );
+    }
+  }
+
+  /**
+   * Start of the oldest month still needed: samples before it were deleted for every park
+   */
+  private async findDetachHorizon(): Promise<Date | null> {
+    const [row]: Array<{ horizon: Date | null }> = await this
+      .queueTimeRepository.query(`
+        SELECT CASE WHEN BOOL_AND(qc."deletedBefore" IS NOT NULL)
+                    THEN MIN(qc."deletedBefore")
+               END AS horizon
+        FROM park p
+        LEFT JOIN queue_time_compaction qc ON qc."parkId" = p.id
+      `);
+
+    return row?.horizon ? new Date(row.horizon) : null;
+  }
+
+  private async listPartitions(): Promise<string[]> {
+    const rows: Array<{ name: string }> = await this.queueTimeRepository.query(`
+      SELECT child.relname AS name
+      FROM pg_inherits i
+      JOIN pg_class child ON child.oid = i.inhrelid
+      WHERE i.inhparent = 'queue_time'::regclass
+    `);
+
+    return rows.map((row) => row.name);
+  }
+
+  private async findDefaultPartitionMonths(): Promise<string[]> {
+    const rows: Array<{ month: string }> = await this.queueTimeRepository
+      .query(`
+        SELECT DISTINCT TO_CHAR("lastUpdated" AT TIME ZONE 'UTC', 'YYYY-MM') AS month
+        FROM ${this.DEFAULT_PARTITION}
+      `);
+
+    return rows.map((row) => row.month);
+  }
+
+  /**
+   * Partition DDL runs in a transaction serialized across instances
+   */
+  private withLock<T>(fn: (manager: EntityManager) => Promise<T>): Promise<T> {
+    return this.queueTimeRepository.manager.transaction(async (manager) => {
+      await manager.query(`SELECT pg_advisory_xact_lock(hashtext($1))`, [
+        this.LOCK_KEY,
+      ]);
+      return fn(manager);
+    });
+  }
+
+  private partitionName(month: string): string {
+    return `queue_time_${month.replace('-', '_')}`;
+  }
+
+  private partitionMonth(name: string): string | null {
+    const match = this.PARTITION_NAME_PATTERN.exec(name);
+    return match ? `${match[1]}-${match[2]}` : null;
+  }
+
+  // Months are handled as YYYY-MM keys in UTC
+  private monthKey(date: Date): string {
+    return date.toISOString().slice(0, 7);
+  }
+
+  private monthStart(month: string): Date {
+    return new Date(`${month}-01T00:00:00.000Z`);
+  }
+
+  private addMonths(month: string, months: number): string {
+    const date = this.monthStart(month);
+    date.setUTCMonth(date.getUTCMonth() + months);
+    return this.monthKey(date);
+  }
+}
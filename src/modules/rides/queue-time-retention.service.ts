@@ -0,0 +1,343 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { QueueTimeCompaction } from '../parks/queue-time-compaction.entity.js';
+import { RELIABILITY_WINDOWS } from '../parks/ride-reliability.entity.js';
+import { QueueTimeRollupService } from './queue-time-rollup.service.js';
+
+export interface QueueTimeCompactionOptions {
+  dryRun?: boolean; // Only count the affected rows
+  parkId?: number;
+}
+
+export interface QueueTimeCompactionReport {
+  dryRun: boolean;
+  retentionDays: number;
+  compressAfterDays: number;
+  parks: number; // Parks with samples past their compaction horizon
+  deletedRows: number;
+  compressedRows: number;
+}
+
+interface DuePark {
+  id: number;
+  compactedBefore: Date | null;
+  deleteBefore: Date | null;
+  compressBefore: Date | null;
+}
+
+/**
+ * Applies the queue time retention policy per park, always up to a local midnight:
+ * - raw samples older than QUEUE_TIME_RETENTION_DAYS are deleted
+ * - optionally, samples older than QUEUE_TIME_COMPRESS_AFTER_DAYS that repeat both their
+ *   previous and next sample (same wait, open and suspect state) are removed, keeping the
+ *   first and last sample of each unchanged run
+ * Before raw samples go, the rollups of their buckets are rebuilt from the complete raw
+ * samples and are final from then on. Crowd baselines are only computed from the hourly
+ * rollups (see RideCrowdBaselineService), so compaction leaves them unchanged.
+ * Heatmaps and forecasts count raw samples and ride reliability reads them over up to a
+ * year, so a policy cutting into their lookback is logged on startup.
+ */
+@Injectable()
+export class QueueTimeRetentionService {
+  private readonly logger = new Logger(QueueTimeRetentionService.name);
+
+  private readonly DELETE_BATCH_SIZE = 50000;
+  private readonly COMPRESS_CHUNK_DAYS = 7;
+
+  private readonly retentionDays: number;
+  private readonly compressAfterDays: number;
+
+  constructor(
+    @InjectRepository(QueueTimeCompaction)
+    private readonly compactionRepository: Repository<QueueTimeCompaction>,
+    private readonly rollupService: QueueTimeRollupService,
+    private readonly configService: ConfigService,
+  ) {
+    this.retentionDays = Number(
+      this.configService.get('QUEUE_TIME_RETENTION_DAYS', 0),
+    );
+    this.compressAfterDays = Number(
+      this.configService.get('QUEUE_TIME_COMPRESS_AFTER_DAYS', 0),
+    );
+    this.warnAboutRawSampleReaders();
+  }
+
+  /**
+   * Whether raw samples are deleted or compressed at all (0 days disables either step)
+   */
+  isEnabled(): boolean {
+    return this.retentionDays > 0 || this.compressAfterDays > 0;
+  }
+
+  async compact(
+    options: QueueTimeCompactionOptions = {},
+  ): Promise<QueueTimeCompactionReport> {
+    const dryRun = options.dryRun ?? false;
+    const report: QueueTimeCompactionReport = {
+      dryRun,
+      retentionDays: this.retentionDays,
+      compressAfterDays: this.compressAfterDays,
+      parks: 0,
+      deletedRows: 0,
+      compressedRows: 0,
+    };
+    if (!this.isEnabled()) {
+      return report;
+    }
+
+    for (const park of await this.findParks(options.parkId)) {
+      const horizon = this.latest(park.deleteBefore, park.compressBefore);
+      if (
+        !horizon ||
+        (park.compactedBefore && horizon <= park.compactedBefore)
+      ) {
+        continue;
+      }
+      report.parks++;
+
+      if (!dryRun) {
+        // Make the rollups of everything about to be compacted complete
+        await this.rollupService.rebuild({
+          parkId: park.id,
+          from: park.compactedBefore ?? undefined,
+          to: horizon,
+        });
+      }
+
+      if (park.deleteBefore) {
+        report.deletedRows += await this.deleteSamples(
+          park.id,
+          park.deleteBefore,
+          dryRun,
+        );
+      }
+
+      if (
+        park.compressBefore &&
+        (!park.deleteBefore || park.compressBefore > park.deleteBefore)
+      ) {
+        report.compressedRows += await this.compressRuns(
+          park.id,
+          this.latest(park.compactedBefore, park.deleteBefore),
+          park.compressBefore,
+          dryRun,
+        );
+      }
+
+      if (!dryRun) {
+        await this.compactionRepository.upsert(
+          {
+            parkId: park.id,
+            compactedBefore: horizon,
+            deletedBefore: park.deleteBefore,
+          },
+          ['parkId'],
+        );
+      }
+    }
+
+    this.logger.log(
+      `${dryRun ? '[dry run] ' : ''}Queue time compaction of ${report.parks} parks: ${report.deletedRows} samples deleted, ${report.compressedRows} compressed`,
+    );
+    return report;
+  }
+
+  /**
+   * Parks with their compaction horizons: local midnight N days before today
+   */
+  private async findParks(parkId?: number): Promise<DuePark[]> {
+    const rows: DuePark[] = await this.compactionRepository.query(
+      `
+      SELECT p.id,
+             qc."compactedBefore",
+             CASE WHEN $1::int > 0 THEN
+               (DATE_TRUNC('day', NOW() AT TIME ZONE p.timezone) - MAKE_INTERVAL(days => $1::int)) AT TIME ZONE p.timezone
+             END AS "deleteBefore",
+             CASE WHEN $2::int > 0 THEN
+               (DATE_TRUNC('day', NOW() AT TIME ZONE p.timezone) - MAKE_INTERVAL(days => $2::int)) AT TIME ZONE p.timezone
+             END AS "compressBefore"
+      FROM park p
+      LEFT JOIN queue_time_compaction qc ON qc."parkId" = p.id
+      WHERE $3::int IS NULL OR p.id = $3
+      ORDER BY p.id
+      `,
+      [this.retentionDays, this.compressAfterDays, parkId ?? null],
+    );
+
+    return rows.map((row) => ({
+      ...row,
+      compactedBefore: row.compactedBefore
+        ? new Date(row.compactedBefore)
+        : null,
+      deleteBefore: row.deleteBefore ? new Date(row.deleteBefore) : null,
+      compressBefore: row.compressBefore ? new Date(row.compressBefore) : null,
+    }));
+  }
+
+  /**
+   * Delete raw samples of a park before the given moment in batches
+   */
+  private async deleteSamples(
+    parkId: number,
+    before: Date,
+    dryRun: boolean,
+  ): Promise<number> {
+    if (dryRun) {
+      const [{ count }]: Array<{ count: string }> =
+        await this.compactionRepository.query(
+          `
+          SELECT COUNT(*) AS count
+          FROM queue_time qt
+          INNER JOIN ride r ON r.id = qt."rideId"
+          WHERE r."parkId" = $1
+            AND qt."lastUpdated" < $2
+          `,
+          [parkId, before.toISOString()],
+        );
+      return parseInt(count, 10);
+    }
+
+    let deleted = 0;
+    for (;;) {
+      const [{ count }]: Array<{ count: string }> =
+        await this.compactionRepository.query(
+          `
+          WITH removed AS (
+            DELETE FROM queue_time
+            WHERE id IN (
+              SELECT qt.id
+              FROM queue_time qt
+              INNER JOIN ride r ON r.id = qt."rideId"
+              WHERE r."parkId" = $1
+                AND qt."lastUpdated" < $2
+              LIMIT $3
+            )
+            RETURNING 1
+          )
+          SELECT COUNT(*) AS count FROM removed
+          `,
+          [parkId, before.toISOString(), this.DELETE_BATCH_SIZE],
+        );
+
+      const batch = parseInt(count, 10);
+      deleted += batch;
+      if (batch < this.DELETE_BATCH_SIZE) {
+        return deleted;
+      }
+    }
+  }
+
+  /**
+   * Remove samples of a park in [from, to) repeating both neighbours, in chunks of days
+   */
+  private async compressRuns(
+    parkId: number,
+    from: Date | null,
+    to: Date,
+    dryRun: boolean,
+  ): Promise<number> {
+    let start = from;
+    if (!start) {
+      const [{ first }]: Array<{ first: Date | null }> =
+        await this.compactionRepository.query(
+          `
+          SELECT MIN(qt."lastUpdated") AS first
+          FROM queue_time qt
+          INNER JOIN ride r ON r.id = qt."rideId"
+          WHERE r."parkId" = $1
+          `,
+          [parkId],
+        );
+      if (!first) return 0;
+      start = new Date(first);
+    }
+
+    const chunkMs = this.COMPRESS_CHUNK_DAYS * 24 * 3600 * 1000;
+    let compressed = 0;
+
+    for (
+      let chunkStart = start.getTime();
+      chunkStart < to.getTime();
+      chunkStart += chunkMs
+    ) {
+      const chunkEnd = Math.min(chunkStart + chunkMs, to.getTime());
+      // Neighbours are looked up across chunk boundaries, but never beyond the horizon
+      const [{ count }]: Array<{ count: string }> =
+        await this.compactionRepository.query(
+          `
+          WITH neighbours AS (
+            SELECT qt.id,
+                   qt."lastUpdated",
+                   qt."waitTime" = LAG(qt."waitTime") OVER w
+                     AND qt."waitTime" = LEAD(qt."waitTime") OVER w
+                     AND qt."isOpen" = LAG(qt."isOpen") OVER w
+                     AND qt."isOpen" = LEAD(qt."isOpen") OVER w
+                     AND qt.suspect = LAG(qt.suspect) OVER w
+                     AND qt.suspect = LEAD(qt.suspect) OVER w AS redundant
+            FROM queue_time qt
+            INNER JOIN ride r ON r.id = qt."rideId"
+            WHERE r."parkId" = $1
+              AND qt."lastUpdated" >= $2::timestamptz - INTERVAL '1 day'
+              AND qt."lastUpdated" < LEAST($3::timestamptz + INTERVAL '1 day', $4::timestamptz)
+            WINDOW w AS (PARTITION BY qt."rideId" ORDER BY qt."lastUpdated")
+          ),
+          candidates AS (
+            SELECT id
+            FROM neighbours
+            WHERE redundant
+              AND "lastUpdated" >= $2
+              AND "lastUpdated" < $3
+          )
+          ${
+            dryRun
+              ? 'SELECT COUNT(*) AS count FROM candidates'
+              : `, removed AS (
+                   DELETE FROM queue_time WHERE id IN (SELECT id FROM candidates)
+                   RETURNING 1
+                 )
+                 SELECT COUNT(*) AS count FROM removed`
+          }
+          `,
+          [
+            parkId,
+            new Date(chunkStart).toISOString(),
+            new Date(chunkEnd).toISOString(),
+            to.toISOString(),
+          ],
+        );
+      compressed += parseInt(count, 10);
+    }
+
+    return compressed;
+  }
+
+  private warnAboutRawSampleReaders(): void {
+    const lookbackDays = Math.max(
+      Number(this.configService.get('HEATMAP_LOOKBACK_DAYS', 90)),
+      Number(this.configService.get('FORECAST_LOOKBACK_DAYS', 56)),
+    );
+    const reliabilityDays = Math.max(...RELIABILITY_WINDOWS);
+
+    if (this.compressAfterDays > 0 && this.compressAfterDays < lookbackDays) {
+      this.logger.warn(
+        `QUEUE_TIME_COMPRESS_AFTER_DAYS (${this.compressAfterDays}) is below the ${lookbackDays}-day lookback of heatmaps and forecasts, which count raw samples`,
+      );
+    }
+    if (
+      this.retentionDays > 0 &&
+      this.retentionDays < Math.max(lookbackDays, reliabilityDays)
+    ) {
+      this.logger.warn(
+        `QUEUE_TIME_RETENTION_DAYS (${this.retentionDays}) is below the lookback of heatmaps and forecasts (${lookbackDays} days) or ride reliability (${reliabilityDays} days), which then only cover the retained days`,
+      );
+    }
+  }
+
+  private latest(a: Date | null, b: Date | null): Date | null {
+    if (!a) return b;
+    if (!b) return a;
+    return a > b ? a : b;
+  }
+}
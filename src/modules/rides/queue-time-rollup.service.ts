@@ -0,0 +1,363 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { QueueTimeHourly } from '../parks/queue-time-rollup.entity.js';
+
+/**
+ * Samples of a ride whose hours and local days are recomputed, bounds inclusive
+ */
+export interface QueueTimeRollupRange {
+  rideId: number;
+  from: Date;
+  to: Date;
+}
+
+export interface QueueTimeRollupRebuildOptions {
+  from?: Date;
+  to?: Date;
+  parkId?: number;
+}
+
+export interface QueueTimeRollupRebuildReport {
+  rides: number;
+  from: Date | null;
+  to: Date | null;
+  hourlyRows: number;
+  dailyRows: number;
+}
+
+type RollupBucket = 'hour' | 'day';
+
+/**
+ * Maintains the hourly and daily queue time rollups (queue_time_hourly, queue_time_daily).
+ * Buckets follow the park's local time. After each ingestion run the buckets of all
+ * samples recorded since the last refresh are recomputed from the raw rows, including
+ * the bucket of each ride's preceding sample as its open minutes depend on the next one.
+ * Only the last days are refreshed that way, older samples (e.g. imported history) need
+ * a rebuild. Both refresh in chunks of rides and days.
+ * Rollup rows are never removed, so they outlive raw samples, and buckets before a park's
+ * compaction horizon (see QueueTimeRetentionService) are never recomputed.
+ */
+@Injectable()
+export class QueueTimeRollupService {
+  private readonly logger = new Logger(QueueTimeRollupService.name);
+
+  private readonly MAX_SAMPLE_GAP_MINUTES = 30; // An open sample counts for at most this many open minutes
+  private readonly WATERMARK_OVERLAP_MINUTES = 10; // Catches samples committed late by concurrent runs
+  private readonly INITIAL_LOOKBACK_HOURS = 24; // Incremental start without rollups, older data needs a rebuild
+  private readonly INCREMENTAL_MAX_DAYS = 7; // Incremental refreshes skip older buckets, they need a rebuild
+  private readonly REBUILD_CHUNK_DAYS = 7;
+  private readonly REBUILD_RIDE_BATCH_SIZE = 500;
+
+  constructor(
+    @InjectRepository(QueueTimeHourly)
+    private readonly hourlyRepository: Repository<QueueTimeHourly>,
+  ) {}
+
+  /**
+   * Recompute the rollup buckets touched by samples recorded since the last refresh
+   * @returns Number of refreshed rides
+   */
+  async refreshIncremental(): Promise<number> {
+    const [{ watermark }]: Array<{ watermark: Date | null }> =
+      await this.hourlyRepository.query(
+        `SELECT MAX("refreshedAt") AS watermark FROM queue_time_hourly`,
+      );
+
+    let since: Date;
+    if (watermark) {
+      since = new Date(
+        new Date(watermark).getTime() -
+          this.WATERMARK_OVERLAP_MINUTES * 60 * 1000,
+      );
+    } else {
+      since = new Date(Date.now() - this.INITIAL_LOOKBACK_HOURS * 3600 * 1000);
+      this.logger.warn(
+        'No queue time rollups yet - run the rollup rebuild to include older history',
+      );
+    }
+
+    const rows: Array<{
+      rideId: number;
+      from: Date;
+      to: Date;
+      firstChanged: Date;
+    }> = await this.hourlyRepository.query(
+      `
+        WITH changed AS (
+          SELECT qt."rideId",
+                 MIN(qt."lastUpdated") AS first_changed,
+                 MAX(qt."lastUpdated") AS last_changed
+          FROM queue_time qt
+          WHERE qt."recordedAt" >= $1
+            AND qt."lastUpdated" IS NOT NULL
+          GROUP BY qt."rideId"
+        )
+        SELECT c."rideId",
+               COALESCE(
+                 (SELECT MAX(prev."lastUpdated")
+                  FROM queue_time prev
+                  WHERE prev."rideId" = c."rideId"
+                    AND prev."lastUpdated" < c.first_changed),
+                 c.first_changed
+               ) AS "from",
+               c.last_changed AS "to",
+               c.first_changed AS "firstChanged"
+        FROM changed c
+        `,
+      [since.toISOString()],
+    );
+
+    const horizon = Date.now() - this.INCREMENTAL_MAX_DAYS * 24 * 3600 * 1000;
+    const ranges: QueueTimeRollupRange[] = [];
+    let skipped = 0;
+    for (const row of rows) {
+      const from = new Date(row.from);
+      const to = new Date(row.to);
+      // The preceding sample may be older without being new
+      if (new Date(row.firstChanged).getTime() < horizon) skipped++;
+      if (to.getTime() < horizon) continue;
+      ranges.push({
+        rideId: row.rideId,
+        from: new Date(Math.max(from.getTime(), horizon)),
+        to,
+      });
+    }
+
+    if (skipped > 0) {
+      this.logger.warn(
+        `New queue times of ${skipped} rides are older than ${this.INCREMENTAL_MAX_DAYS} days - run the rollup rebuild to include them`,
+      );
+    }
+    if (ranges.length === 0) {
+      return 0;
+    }
+
+    await this.refreshInChunks(ranges);
+    this.logger.debug(`Refreshed queue time rollups of ${ranges.length} rides`);
+    return ranges.length;
+  }
+
+  /**
+   * Recompute all rollups from the raw samples, in chunks of rides and days.
+   * Buckets without raw samples and compacted buckets are kept.
+   */
+  async rebuild(
+    options: QueueTimeRollupRebuildOptions = {},
+  ): Promise<QueueTimeRollupRebuildReport> {
+    const rides: Array<{ id: number }> = await this.hourlyRepository.query(
+      `SELECT id FROM ride WHERE $1::int IS NULL OR "parkId" = $1 ORDER BY id`,
+      [options.parkId ?? null],
+    );
+    const rideIds = rides.map((ride) => ride.id);
+
+    const [range]: Array<{ from: Date | null; to: Date | null }> =
+      await this.hourlyRepository.query(
+        `
+        SELECT MIN(qt."lastUpdated") AS "from", MAX(qt."lastUpdated") AS "to"
+        FROM queue_time qt
+        WHERE qt."rideId" = ANY($1)
+          AND ($2::timestamptz IS NULL OR qt."lastUpdated" >= $2)
+          AND ($3::timestamptz IS NULL OR qt."lastUpdated" < $3)
+        `,
+        [
+          rideIds,
+          options.from?.toISOString() ?? null,
+          options.to?.toISOString() ?? null,
+        ],
+      );
+
+    const report: QueueTimeRollupRebuildReport = {
+      rides: rideIds.length,
+      from: range?.from ? new Date(range.from) : null,
+      to: range?.to ? new Date(range.to) : null,
+      hourlyRows: 0,
+      dailyRows: 0,
+    };
+    if (!report.from || !report.to) {
+      return report;
+    }
+
+    const { from, to } = report;
+    const counts = await this.refreshInChunks(
+      rideIds.map((rideId) => ({ rideId, from, to })),
+      (chunkEnd, totals) =>
+        this.logger.log(
+          `Rebuilt queue time rollups up to ${chunkEnd.toISOString()} (${totals.hourlyRows} hourly, ${totals.dailyRows} daily rows)`,
+        ),
+    );
+    report.hourlyRows = counts.hourlyRows;
+    report.dailyRows = counts.dailyRows;
+
+    return report;
+  }
+
+  /**
+   * Refresh the ranges in chunks of days, oldest first, and batches of rides per chunk
+   * so no statement covers more than a chunk of history
+   */
+  private async refreshInChunks(
+    ranges: QueueTimeRollupRange[],
+    onChunk?: (
+      chunkEnd: Date,
+      totals: { hourlyRows: number; dailyRows: number },
+    ) => void,
+  ): Promise<{ hourlyRows: number; dailyRows: number }> {
+    const totals = { hourlyRows: 0, dailyRows: 0 };
+    if (ranges.length === 0) {
+      return totals;
+    }
+
+    const start = Math.min(...ranges.map((range) => range.from.getTime()));
+    const end = Math.max(...ranges.map((range) => range.to.getTime()));
+    const chunkMs = this.REBUILD_CHUNK_DAYS * 24 * 3600 * 1000;
+    for (let chunkStart = start; chunkStart <= end; chunkStart += chunkMs) {
+      const chunkEnd = Math.min(chunkStart + chunkMs - 1, end);
+      const chunkRanges = ranges
+        .filter(
+          (range) =>
+            range.from.getTime() <= chunkEnd &&
+            range.to.getTime() >= chunkStart,
+        )
+        .map((range) => ({
+          rideId: range.rideId,
+          from: new Date(Math.max(range.from.getTime(), chunkStart)),
+          to: new Date(Math.min(range.to.getTime(), chunkEnd)),
+        }));
+
+      for (
+        let offset = 0;
+        offset < chunkRanges.length;
+        offset += this.REBUILD_RIDE_BATCH_SIZE
+      ) {
+        const counts = await this.refreshRanges(
+          chunkRanges.slice(offset, offset + this.REBUILD_RIDE_BATCH_SIZE),
+        );
+        totals.hourlyRows += counts.hourlyRows;
+        totals.dailyRows += counts.dailyRows;
+      }
+
+      onChunk?.(new Date(chunkEnd), totals);
+    }
+
+    return totals;
+  }
+
+  /**
+   * Recompute the hourly and daily rollups of the local hours and days containing each range.
+   * Every ride may only appear once.
+   */
+  async refreshRanges(
+    ranges: QueueTimeRollupRange[],
+  ): Promise<{ hourlyRows: number; dailyRows: number }> {
+    if (ranges.length === 0) {
+      return { hourlyRows: 0, dailyRows: 0 };
+    }
+
+    return {
+      hourlyRows: await this.refreshBuckets('hour', ranges),
+      dailyRows: await this.refreshBuckets('day', ranges),
+    };
+  }
+
+  private async refreshBuckets(
+    bucket: RollupBucket,
+    ranges: QueueTimeRollupRange[],
+  ): Promise<number> {
+    const table = bucket === 'hour' ? 'queue_time_hourly' : 'queue_time_daily';
+    const keyColumn = bucket === 'hour' ? 'hour' : 'date';
+    const keyExpression =
+      bucket === 'hour'
+        ? `DATE_TRUNC('hour', "lastUpdated" AT TIME ZONE timezone) AT TIME ZONE timezone`
+        : `("lastUpdated" AT TIME ZONE timezone)::date`;
+
+    const [{ count }]: Array<{ count: string }> =
+      await this.hourlyRepository.query(
+        `
+        WITH ranges AS (
+          -- Buckets before the park's compaction horizon are final
+          SELECT r."rideId",
+                 p.timezone,
+                 GREATEST(
+                   DATE_TRUNC('${bucket}', r."from" AT TIME ZONE p.timezone) AT TIME ZONE p.timezone,
+                   qc."compactedBefore"
+                 ) AS range_start,
+                 (DATE_TRUNC('${bucket}', r."to" AT TIME ZONE p.timezone) + INTERVAL '1 ${bucket}') AT TIME ZONE p.timezone AS range_end
+          FROM UNNEST($1::int[], $2::timestamptz[], $3::timestamptz[]) AS r("rideId", "from", "to")
+          INNER JOIN ride ON ride.id = r."rideId"
+          INNER JOIN park p ON p.id = ride."parkId"
+          LEFT JOIN queue_time_compaction qc ON qc."parkId" = p.id
+        ),
+        samples AS (
+          -- Samples shortly after the range only provide the next sample of the last ones
+          SELECT qt."rideId",
+                 qt."lastUpdated",
+                 qt."waitTime",
+                 qt."isOpen",
+                 qt."isOpen" AND NOT qt.suspect AS valid,
+                 r.timezone,
+                 r.range_end,
+                 LEAST(
+                   EXTRACT(EPOCH FROM (
+                     LEAD(qt."lastUpdated") OVER (PARTITION BY qt."rideId" ORDER BY qt."lastUpdated")
+                     - qt."lastUpdated"
+                   )) / 60,
+                   $4::int
+                 ) AS minutes
+          FROM ranges r
+          INNER JOIN queue_time qt
+            ON qt."rideId" = r."rideId"
+           AND qt."lastUpdated" >= r.range_start
+           AND qt."lastUpdated" < r.range_end + MAKE_INTERVAL(mins => $4::int)
+        ),
+        upserted AS (
+          INSERT INTO ${table} (
+            "rideId", "${keyColumn}", "sampleCount", "openSampleCount", "waitSampleCount",
+            "nonZeroWaitCount", "minWait", "avgWait", "maxWait", "p50Wait", "p90Wait",
+            "p95Wait", "openMinutes", "refreshedAt"
+          )
+          SELECT "rideId",
+                 ${keyExpression},
+                 COUNT(*),
+                 COUNT(*) FILTER (WHERE "isOpen"),
+                 COUNT(*) FILTER (WHERE valid),
+                 COUNT(*) FILTER (WHERE valid AND "waitTime" > 0),
+                 MIN("waitTime") FILTER (WHERE valid),
+                 AVG("waitTime") FILTER (WHERE valid),
+                 MAX("waitTime") FILTER (WHERE valid),
+                 PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY "waitTime") FILTER (WHERE valid),
+                 PERCENTILE_CONT(0.9) WITHIN GROUP (ORDER BY "waitTime") FILTER (WHERE valid),
+                 PERCENTILE_CONT(0.95) WITHIN GROUP (ORDER BY "waitTime") FILTER (WHERE valid),
+                 ROUND(COALESCE(SUM(minutes) FILTER (WHERE "isOpen"), 0)),
+                 NOW()
+          FROM samples
+          WHERE "lastUpdated" < range_end
+          GROUP BY 1, 2
+          ON CONFLICT ("rideId", "${keyColumn}") DO UPDATE
+            SET "sampleCount" = EXCLUDED."sampleCount",
+                "openSampleCount" = EXCLUDED."openSampleCount",
+                "waitSampleCount" = EXCLUDED."waitSampleCount",
+                "nonZeroWaitCount" = EXCLUDED."nonZeroWaitCount",
+                "minWait" = EXCLUDED."minWait",
+                "avgWait" = EXCLUDED."avgWait",
+                "maxWait" = EXCLUDED."maxWait",
+                "p50Wait" = EXCLUDED."p50Wait",
+                "p90Wait" = EXCLUDED."p90Wait",
+                "p95Wait" = EXCLUDED."p95Wait",
+                "openMinutes" = EXCLUDED."openMinutes",
+                "refreshedAt" = EXCLUDED."refreshedAt"
+          RETURNING 1
+        )
+        SELECT COUNT(*) AS count FROM upserted
+        `,
+        [
+          ranges.map((range) => range.rideId),
+          ranges.map((range) => range.from.toISOString()),
+          ranges.map((range) => range.to.toISOString()),
+          this.MAX_SAMPLE_GAP_MINUTES,
+        ],
+      );
+
+    return parseInt(count, 10);
+  }
+}
@@ -0,0 +1,151 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import {
+  CROWD_BASELINE_PERCENTILE,
+  CROWD_BASELINE_WINDOW_DAYS,
+  RideCrowdBaseline,
+} from '../parks/ride-crowd-baseline.entity.js';
+
+/**
+ * Maintains the crowd level baseline per ride (ride_crowd_baseline): the 95th percentile
+ * of the ride's hourly average waits over the last two years, with the number of hours
+ * and samples behind it. Hours are weighted as in the crowd level: the average of an
+ * hour only counts samples with a wait above 0. Rides whose hourly rollups changed are
+ * refreshed incrementally, all rides once a day as the window moves on.
+ * Reads are served from an in-memory snapshot of the table, so crowd levels of park
+ * listings need no database query per park.
+ */
+@Injectable()
+export class RideCrowdBaselineService {
+  private readonly logger = new Logger(RideCrowdBaselineService.name);
+
+  private readonly WATERMARK_OVERLAP_MINUTES = 10; // Catches rollups committed late by concurrent runs
+  private readonly REFRESH_RIDE_BATCH_SIZE = 500;
+  private readonly SNAPSHOT_TTL_MS = 5 * 60 * 1000;
+
+  private snapshot = new Map<number, RideCrowdBaseline>();
+  private snapshotLoadedAt = 0;
+  private snapshotLoading: Promise<void> | null = null;
+
+  constructor(
+    @InjectRepository(RideCrowdBaseline)
+    private readonly baselineRepository: Repository<RideCrowdBaseline>,
+  ) {}
+
+  /**
+   * Stored baselines of the given rides, rides without one are left out
+   */
+  async getBaselines(rideIds: number[]): Promise<RideCrowdBaseline[]> {
+    if (Date.now() - this.snapshotLoadedAt > this.SNAPSHOT_TTL_MS) {
+      // Concurrent requests share one reload
+      this.snapshotLoading ??= this.loadSnapshot().finally(() => {
+        this.snapshotLoading = null;
+      });
+      await this.snapshotLoading;
+    }
+
+    return rideIds
+      .map((rideId) => this.snapshot.get(rideId))
+      .filter((baseline): baseline is RideCrowdBaseline => !!baseline);
+  }
+
+  /**
+   * Recompute the baselines of rides whose hourly rollups changed since the last refresh,
+   * or of all rides when none are stored yet
+   * @returns Number of refreshed rides
+   */
+  async refreshIncremental(): Promise<number> {
+    const [{ watermark }]: Array<{ watermark: Date | null }> =
+      await this.baselineRepository.query(
+        `SELECT MAX("refreshedAt") AS watermark FROM ride_crowd_baseline`,
+      );
+    if (!watermark) {
+      return this.refreshAll();
+    }
+
+    const since = new Date(
+      new Date(watermark).getTime() -
+        this.WATERMARK_OVERLAP_MINUTES * 60 * 1000,
+    );
+    const rows: Array<{ rideId: number }> = await this.baselineRepository.query(
+      `SELECT DISTINCT "rideId" FROM queue_time_hourly WHERE "refreshedAt" >= $1`,
+      [since.toISOString()],
+    );
+
+    const rideIds = rows.map((row) => row.rideId);
+    await this.refreshRides(rideIds);
+    this.logger.debug(`Refreshed crowd baselines of ${rideIds.length} rides`);
+    return rideIds.length;
+  }
+
+  /**
+   * Recompute the baselines of all rides
+   * @returns Number of refreshed rides
+   */
+  async refreshAll(): Promise<number> {
+    const rows: Array<{ id: number }> = await this.baselineRepository.query(
+      `SELECT id FROM ride ORDER BY id`,
+    );
+
+    const rideIds = rows.map((row) => row.id);
+    await this.refreshRides(rideIds);
+    this.logger.log(`Refreshed crowd baselines of ${rideIds.length} rides`);
+    return rideIds.length;
+  }
+
+  private async refreshRides(rideIds: number[]): Promise<void> {
+    for (
+      let offset = 0;
+      offset < rideIds.length;
+      offset += this.REFRESH_RIDE_BATCH_SIZE
+    ) {
+      await this.baselineRepository.query(
+        `
+        INSERT INTO ride_crowd_baseline (
+          "rideId", "p95Wait", "hourCount", "sampleCount", "firstHour", "lastHour", "refreshedAt"
+        )
+        SELECT r.id,
+               PERCENTILE_CONT($3) WITHIN GROUP (
+                 ORDER BY h."avgWait" * h."waitSampleCount" / h."nonZeroWaitCount"
+               ),
+               COUNT(h.hour),
+               COALESCE(SUM(h."nonZeroWaitCount"), 0),
+               MIN(h.hour),
+               MAX(h.hour),
+               NOW()
+        FROM UNNEST($1::int[]) AS r(id)
+        INNER JOIN ride ON ride.id = r.id
+        LEFT JOIN queue_time_hourly h
+          ON h."rideId" = r.id
+         AND h.hour >= NOW() - MAKE_INTERVAL(days => $2::int)
+         AND h."nonZeroWaitCount" > 0
+        GROUP BY r.id
+        ON CONFLICT ("rideId") DO UPDATE
+          SET "p95Wait" = EXCLUDED."p95Wait",
+              "hourCount" = EXCLUDED."hourCount",
+              "sampleCount" = EXCLUDED."sampleCount",
+              "firstHour" = EXCLUDED."firstHour",
+              "lastHour" = EXCLUDED."lastHour",
+              "refreshedAt" = EXCLUDED."refreshedAt"
+        `,
+        [
+          rideIds.slice(offset, offset + this.REFRESH_RIDE_BATCH_SIZE),
+          CROWD_BASELINE_WINDOW_DAYS,
+          CROWD_BASELINE_PERCENTILE,
+        ],
+      );
+    }
+
+    // Serve this instance's next read from the refreshed table
+    this.snapshotLoadedAt = 0;
+  }
+
+  private async loadSnapshot(): Promise<void> {
+    const baselines = await this.baselineRepository.find();
+    this.snapshot = new Map(
+      baselines.map((baseline) => [baseline.rideId, baseline]),
+    );
+    this.snapshotLoadedAt = Date.now();
+  }
+}
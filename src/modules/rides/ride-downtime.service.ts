@@ -0,0 +1,221 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Ride } from '../parks/ride.entity.js';
+import { Park } from '../parks/park.entity.js';
+import { RideDowntime } from '../parks/ride-downtime.entity.js';
+import { ParkUtilsService } from '../utils/park-utils.service.js';
+import { RideDowntimeQueryDto } from './rides.dto.js';
+
+/**
+ * Derives ride downtimes from queue time samples and serves them.
+ * A downtime is a run of closed samples preceded and followed by an open sample
+ * on the same local day of the park, so rides closing for the night or never
+ * opening on a day do not count as breakdowns.
+ */
+@Injectable()
+export class RideDowntimeService {
+  private readonly logger = new Logger(RideDowntimeService.name);
+  private readonly DEFAULT_RANGE_DAYS = 7;
+
+  constructor(
+    @InjectRepository(RideDowntime)
+    private readonly downtimeRepository: Repository<RideDowntime>,
+    @InjectRepository(Ride)
+    private readonly rideRepository: Repository<Ride>,
+    @InjectRepository(Park)
+    private readonly parkRepository: Repository<Park>,
+    private readonly parkUtils: ParkUtilsService,
+  ) {}
+
+  /**
+   * Derive downtimes of all rides for the local days after the given moment.
+   * The day containing `since` is skipped as its samples are incomplete.
+   * Re-deriving the same days is idempotent.
+   * @returns Number of stored downtimes
+   */
+  async deriveDowntimes(since: Date): Promise<number> {
+    const rows: Array<{ id: number }> = await this.downtimeRepository.query(
+      `
+      WITH samples AS (
+        SELECT qt."rideId",
+               r."parkId",
+               qt."isOpen",
+               qt."lastUpdated",
+               (qt."lastUpdated" AT TIME ZONE p.timezone)::date AS local_date,
+               ($1::timestamptz AT TIME ZONE p.timezone)::date AS since_date
+        FROM queue_time qt
+        INNER JOIN ride r ON r.id = qt."rideId"
+        INNER JOIN park p ON p.id = r."parkId"
+        WHERE qt."lastUpdated" >= $1
+      ),
+      grouped AS (
+        -- Closed samples share the count of open samples before them
+        SELECT *,
+               SUM(CASE WHEN "isOpen" THEN 1 ELSE 0 END) OVER (
+                 PARTITION BY "rideId", local_date
+                 ORDER BY "lastUpdated"
+               ) AS open_count
+        FROM samples
+        WHERE local_date > since_date
+      ),
+      closures AS (
+        SELECT "rideId", "parkId", local_date, open_count,
+               MIN("lastUpdated") AS started_at
+        FROM grouped
+        WHERE NOT "isOpen" AND open_count > 0
+        GROUP BY "rideId", "parkId", local_date, open_count
+      ),
+      reopenings AS (
+        SELECT "rideId", local_date, open_count,
+               MIN("lastUpdated") AS ended_at
+        FROM grouped
+        WHERE "isOpen"
+        GROUP BY "rideId", local_date, open_count
+      )
+      INSERT INTO ride_downtime ("rideId", "parkId", "date", "startedAt", "endedAt", "durationMinutes")
+      SELECT c."rideId", c."parkId", c.local_date, c.started_at, o.ended_at,
+             ROUND(EXTRACT(EPOCH FROM (o.ended_at - c.started_at)) / 60)
+      FROM closures c
+      INNER JOIN reopenings o
+        ON o."rideId" = c."rideId"
+       AND o.local_date = c.local_date
+       AND o.open_count = c.open_count + 1
+      ON CONFLICT ("rideId", "startedAt") DO UPDATE
+        SET "endedAt" = EXCLUDED."endedAt",
+            "durationMinutes" = EXCLUDED."durationMinutes"
+      RETURNING id
+      `,
+      [since.toISOString()],
+    );
+
+    this.logger.debug(`Derived ${rows.length} ride downtimes`);
+    return rows.length;
+  }
+
+  /**
+   * Get downtimes of a ride, newest first (default: last 7 days)
+   */
+  async findRideDowntimes(rideId: number, query: RideDowntimeQueryDto = {}) {
+    const ride = await this.rideRepository.findOne({
+      where: { id: rideId },
+      relations: { park: true },
+    });
+
+    if (!ride) {
+      throw new NotFoundException(`Ride with ID ${rideId} not found`);
+    }
+
+    const to = query.to ? new Date(query.to) : new Date();
+    const from = query.from
+      ? new Date(query.from)
+      : new Date(to.getTime() - this.DEFAULT_RANGE_DAYS * 24 * 3600 * 1000);
+
+    const downtimes = await this.downtimeRepository
+      .createQueryBuilder('downtime')
+      .where('downtime.rideId = :rideId', { rideId })
+      .andWhere('downtime.startedAt >= :from', { from })
+      .andWhere('downtime.startedAt <= :to', { to })
+      .orderBy('downtime.startedAt', 'DESC')
+      .getMany();
+
+    const today = this.parkUtils.getLocalDate(ride.park.timezone);
+
+    return {
+      rideId: ride.id,
+      rideName: ride.name,
+      parkId: ride.park.id,
+      parkName: ride.park.name,
+      from,
+      to,
+      totalDowntimes: downtimes.length,
+      totalDowntimeMinutes: this.sumMinutes(downtimes),
+      downtimesToday: downtimes.filter((downtime) => downtime.date === today)
+        .length,
+      data: downtimes.map((downtime) => this.transformDowntime(downtime)),
+    };
+  }
+
+  /**
+   * Get downtimes of all rides of a park on one local day (default: today)
+   */
+  async findParkDowntimes(parkId: number, date?: string) {
+    const park = await this.parkRepository.findOne({
+      where: { id: parkId },
+      select: ['id', 'name', 'timezone'],
+    });
+
+    if (!park) {
+      throw new NotFoundException(`Park with ID ${parkId} not found`);
+    }
+
+    const localDate = date ?? this.parkUtils.getLocalDate(park.timezone);
+
+    const downtimes = await this.downtimeRepository
+      .createQueryBuilder('downtime')
+      .leftJoin('downtime.ride', 'ride')
+      .addSelect(['ride.id', 'ride.name'])
+      .where('downtime.parkId = :parkId', { parkId })
+      .andWhere('downtime.date = :date', { date: localDate })
+      .orderBy('downtime.startedAt', 'ASC')
+      .getMany();
+
+    // Group by ride, rides with the most downtime first
+    const rideMap = new Map<
+      number,
+      { id: number; name: string; downtimes: RideDowntime[] }
+    >();
+    for (const downtime of downtimes) {
+      if (!rideMap.has(downtime.rideId)) {
+        rideMap.set(downtime.rideId, {
+          id: downtime.rideId,
+          name: downtime.ride?.name ?? null,
+          downtimes: [],
+        });
+      }
+      rideMap.get(downtime.rideId).downtimes.push(downtime);
+    }
+
+    const rides = Array.from(rideMap.values())
+      .map((ride) => ({
+        id: ride.id,
+        name: ride.name,
+        totalDowntimes: ride.downtimes.length,
+        totalDowntimeMinutes: this.sumMinutes(ride.downtimes),
+        downtimes: ride.downtimes.map((downtime) =>
+          this.transformDowntime(downtime),
+        ),
+      }))
+      .sort(
+        (a, b) =>
+          b.totalDowntimes - a.totalDowntimes ||
+          b.totalDowntimeMinutes - a.totalDowntimeMinutes,
+      );
+
+    return {
+      parkId: park.id,
+      parkName: park.name,
+      date: localDate,
+      totalDowntimes: downtimes.length,
+      totalDowntimeMinutes: this.sumMinutes(downtimes),
+      ridesAffected: rides.length,
+      rides,
+    };
+  }
+
+  private transformDowntime(downtime: RideDowntime) {
+    return {
+      date: downtime.date,
+      startedAt: downtime.startedAt,
+      endedAt: downtime.endedAt,
+      durationMinutes: downtime.durationMinutes,
+    };
+  }
+
+  private sumMinutes(downtimes: RideDowntime[]): number {
+    return downtimes.reduce(
+      (sum, downtime) => sum + downtime.durationMinutes,
+      0,
+    );
+  }
+}
@@ -0,0 +1,307 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Ride } from '../parks/ride.entity.js';
+import {
+  ForecastProfileCell,
+  RideForecastService,
+} from './ride-forecast.service.js';
+
+export interface ForecastBacktestOptions {
+  days?: number; // Length of the evaluation window ending now (default 14)
+  parkId?: number;
+  rideId?: number;
+  horizonsHours?: number[]; // Default 1, 2 and 3 hours
+}
+
+/**
+ * Error metrics of one forecast horizon
+ */
+export interface ForecastBacktestHorizon {
+  hours: number;
+  predictions: number;
+  mae: number; // Mean absolute error in minutes
+  rmse: number;
+  bias: number; // Mean of prediction minus actual
+  intervalCoverage: number; // Share of actuals within [low, high]
+  profileOnlyMae: number; // Same model without the current deviation
+  persistenceMae: number; // Naive forecast: the wait stays as it is now
+}
+
+export interface ForecastBacktestReport {
+  from: Date;
+  to: Date;
+  trainingDays: number;
+  rides: number;
+  horizons: ForecastBacktestHorizon[];
+}
+
+interface HorizonAccumulator {
+  predictions: number;
+  absoluteError: number;
+  squaredError: number;
+  error: number;
+  covered: number;
+  profileOnlyAbsoluteError: number;
+  persistenceAbsoluteError: number;
+}
+
+interface BacktestSample {
+  time: number;
+  waitTime: number;
+}
+
+/**
+ * Replays the wait time forecast on past data: profiles are built from the lookback
+ * before the evaluation window only, then every ride is forecast from origins spread
+ * over the window and compared to the wait actually reported at each horizon.
+ */
+@Injectable()
+export class RideForecastBacktestService {
+  private readonly logger = new Logger(RideForecastBacktestService.name);
+
+  private readonly ORIGIN_INTERVAL_MINUTES = 120; // Minimum spacing of forecast origins per ride
+  private readonly MATCH_TOLERANCE_MINUTES = 10; // Maximum distance of the actual to the target time
+
+  constructor(
+    @InjectRepository(Ride)
+    private readonly rideRepository: Repository<Ride>,
+    private readonly rideForecast: RideForecastService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async run(
+    options: ForecastBacktestOptions = {},
+  ): Promise<ForecastBacktestReport> {
+    const days = options.days ?? 14;
+    const horizonsHours = options.horizonsHours ?? [1, 2, 3];
+    const trainingDays = Number(
+      this.configService.get('FORECAST_LOOKBACK_DAYS', 56),
+    );
+
+    const to = new Date();
+    const from = new Date(to.getTime() - days * 24 * 3600 * 1000);
+    const trainingFrom = new Date(
+      from.getTime() - trainingDays * 24 * 3600 * 1000,
+    );
+
+    const query = this.rideRepository
+      .createQueryBuilder('ride')
+      .innerJoinAndSelect('ride.park', 'park')
+      .where('ride.isActive = true');
+    if (options.parkId) {
+      query.andWhere('park.id = :parkId', { parkId: options.parkId });
+    }
+    if (options.rideId) {
+      query.andWhere('ride.id = :rideId', { rideId: options.rideId });
+    }
+    const rides = await query.getMany();
+
+    // Profiles are built per park as all its rides share the time zone
+    const ridesByPark = new Map<number, Ride[]>();
+    for (const ride of rides) {
+      ridesByPark.set(ride.park.id, [
+        ...(ridesByPark.get(ride.park.id) ?? []),
+        ride,
+      ]);
+    }
+
+    const accumulators = new Map<number, HorizonAccumulator>(
+      horizonsHours.map((hours) => [
+        hours,
+        {
+          predictions: 0,
+          absoluteError: 0,
+          squaredError: 0,
+          error: 0,
+          covered: 0,
+          profileOnlyAbsoluteError: 0,
+          persistenceAbsoluteError: 0,
+        },
+      ]),
+    );
+
+    let evaluatedParks = 0;
+    for (const parkRides of ridesByPark.values()) {
+      const timezone = parkRides[0].park.timezone;
+      const profiles = await this.rideForecast.buildProfiles(
+        parkRides.map((ride) => ride.id),
+        timezone,
+        trainingFrom,
+        from,
+      );
+
+      for (const ride of parkRides) {
+        const profile = profiles.get(ride.id) ?? [];
+        if (profile.length === 0) continue;
+
+        const samples = await this.loadSamples(ride.id, from, to);
+        this.evaluateRide(
+          profile,
+          timezone,
+          samples,
+          horizonsHours,
+          accumulators,
+        );
+      }
+
+      evaluatedParks++;
+      if (evaluatedParks % 10 === 0) {
+        this.logger.log(
+          `Backtested ${evaluatedParks} of ${ridesByPark.size} parks`,
+        );
+      }
+    }
+
+    return {
+      from,
+      to,
+      trainingDays,
+      rides: rides.length,
+      horizons: horizonsHours.map((hours) =>
+        this.toHorizon(hours, accumulators.get(hours)),
+      ),
+    };
+  }
+
+  private evaluateRide(
+    profile: ForecastProfileCell[],
+    timezone: string,
+    samples: BacktestSample[],
+    horizonsHours: number[],
+    accumulators: Map<number, HorizonAccumulator>,
+  ): void {
+    const originIntervalMs = this.ORIGIN_INTERVAL_MINUTES * 60 * 1000;
+    let lastOrigin = -Infinity;
+
+    for (const origin of samples) {
+      if (origin.time - lastOrigin < originIntervalMs) continue;
+      lastOrigin = origin.time;
+
+      const now = new Date(origin.time);
+      const current = { waitTime: origin.waitTime, isOpen: true };
+
+      for (const hours of horizonsHours) {
+        const target = origin.time + hours * 3600 * 1000;
+        const actual = this.findNearest(samples, target);
+        if (!actual) continue;
+
+        const [prediction] = this.rideForecast.predictAt(
+          profile,
+          timezone,
+          current,
+          now,
+          [new Date(target)],
+        );
+        const [profileOnly] = this.rideForecast.predictAt(
+          profile,
+          timezone,
+          null,
+          now,
+          [new Date(target)],
+        );
+        if (!prediction || !profileOnly) continue;
+
+        const accumulator = accumulators.get(hours);
+        const error = prediction.predictedWait - actual.waitTime;
+        accumulator.predictions++;
+        accumulator.absoluteError += Math.abs(error);
+        accumulator.squaredError += error * error;
+        accumulator.error += error;
+        if (
+          actual.waitTime >= prediction.low &&
+          actual.waitTime <= prediction.high
+        ) {
+          accumulator.covered++;
+        }
+        accumulator.profileOnlyAbsoluteError += Math.abs(
+          profileOnly.predictedWait - actual.waitTime,
+        );
+        accumulator.persistenceAbsoluteError += Math.abs(
+          origin.waitTime - actual.waitTime,
+        );
+      }
+    }
+  }
+
+  /**
+   * Open, non-suspect samples of a ride ordered by time
+   */
+  private async loadSamples(
+    rideId: number,
+    from: Date,
+    to: Date,
+  ): Promise<BacktestSample[]> {
+    const rows: Array<{ lastUpdated: Date; waitTime: number }> =
+      await this.rideRepository.query(
+        `
+        SELECT qt."lastUpdated", qt."waitTime"
+        FROM queue_time qt
+        WHERE qt."rideId" = $1
+          AND qt."lastUpdated" >= $2
+          AND qt."lastUpdated" < $3
+          AND qt."isOpen" = true
+          AND qt.suspect = false
+          AND qt."waitTime" IS NOT NULL
+        ORDER BY qt."lastUpdated" ASC
+        `,
+        [rideId, from.toISOString(), to.toISOString()],
+      );
+
+    return rows.map((row) => ({
+      time: new Date(row.lastUpdated).getTime(),
+      waitTime: row.waitTime,
+    }));
+  }
+
+  /**
+   * Sample closest to the target time within the match tolerance (binary search)
+   */
+  private findNearest(
+    samples: BacktestSample[],
+    target: number,
+  ): BacktestSample | null {
+    let low = 0;
+    let high = samples.length - 1;
+    while (low < high) {
+      const middle = Math.floor((low + high) / 2);
+      if (samples[middle].time < target) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+
+    const candidates = [samples[low - 1], samples[low]].filter(Boolean);
+    const nearest = candidates.sort(
+      (a, b) => Math.abs(a.time - target) - Math.abs(b.time - target),
+    )[0];
+
+    return nearest &&
+      Math.abs(nearest.time - target) <=
+        this.MATCH_TOLERANCE_MINUTES * 60 * 1000
+      ? nearest
+      : null;
+  }
+
+  private toHorizon(
+    hours: number,
+    accumulator: HorizonAccumulator,
+  ): ForecastBacktestHorizon {
+    const n = accumulator.predictions;
+    const round = (value: number) => (n > 0 ? Math.round(value * 10) / 10 : 0);
+
+    return {
+      hours,
+      predictions: n,
+      mae: round(accumulator.absoluteError / n),
+      rmse: round(Math.sqrt(accumulator.squaredError / n)),
+      bias: round(accumulator.error / n),
+      intervalCoverage:
+        n > 0 ? Math.round((accumulator.covered / n) * 1000) / 1000 : 0,
+      profileOnlyMae: round(accumulator.profileOnlyAbsoluteError / n),
+      persistenceMae: round(accumulator.persistenceAbsoluteError / n),
+    };
+  }
+}
@@ -0,0 +1,384 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Ride } from '../parks/ride.entity.js';
+import { CacheService } from '../utils/cache.service.js';
+
+/**
+ * One predicted wait of a ride
+ */
+export interface WaitTimeForecastPoint {
+  time: Date;
+  predictedWait: number;
+  low: number; // 10th percentile of comparable history, scaled like the prediction
+  high: number; // 90th percentile of comparable history, scaled like the prediction
+}
+
+/**
+ * Wait time quantiles of a ride in one local day of week × hour cell
+ */
+export interface ForecastProfileCell {
+  dayOfWeek: number; // ISO day of week, 1 = Monday ... 7 = Sunday
+  hour: number;
+  p10: number;
+  p50: number;
+  p90: number;
+  samples: number;
+}
+
+/**
+ * Latest known wait of a ride, as stored in the queue time cache
+ */
+export interface ForecastCurrentWaitTime {
+  waitTime: number | null;
+  isOpen: boolean;
+  suspect?: boolean;
+  lastUpdated?: Date | string;
+}
+
+/**
+ * Predicts ride wait times for the next hours from the ride's own history:
+ * - profile: wait time quantiles per local day of week and hour over the lookback,
+ *   falling back to the hour across all weekdays when a cell has too few samples
+ * - deviation: ratio of the current wait to the profile median right now; it decays
+ *   towards a persistent share with growing horizon (busy days tend to stay busy)
+ * Everything is computed from the queue_time table, no external service is involved.
+ */
+@Injectable()
+export class RideForecastService {
+  private readonly logger = new Logger(RideForecastService.name);
+
+  private readonly STEP_MINUTES = 30;
+  private readonly MIN_HORIZON_HOURS = 3; // Forecast at least this far, even past local midnight
+  private readonly MIN_CELL_SAMPLES = 10;
+  private readonly MIN_BASELINE_WAIT = 5; // Below this median the deviation ratio is meaningless
+  private readonly MIN_RATIO = 0.25;
+  private readonly MAX_RATIO = 3;
+  private readonly DEVIATION_HALF_LIFE_HOURS = 1.5;
+  private readonly PERSISTENT_DEVIATION_SHARE = 0.4;
+  private readonly MAX_CURRENT_AGE_MINUTES = 60; // Older current waits carry no deviation
+  private readonly PROFILE_CACHE_TTL = 6 * 3600; // 6 hours
+
+  constructor(
+    @InjectRepository(Ride)
+    private readonly rideRepository: Repository<Ride>,
+    private readonly configService: ConfigService,
+    private readonly cacheService: CacheService,
+  ) {}
+
+  /**
+   * Forecast one ride from now until the end of the local day (at least 3 hours)
+   */
+  async forecastRide(
+    rideId: number,
+    timezone: string,
+    current: ForecastCurrentWaitTime | null,
+    now: Date = new Date(),
+  ): Promise<WaitTimeForecastPoint[]> {
+    const forecasts = await this.forecastRides(
+      [rideId],
+      timezone,
+      new Map([[rideId, current]]),
+      now,
+    );
+    return forecasts.get(rideId) ?? [];
+  }
+
+  /**
+   * Forecast several rides of one park, loading missing profiles in a single query
+   */
+  async forecastRides(
+    rideIds: number[],
+    timezone: string,
+    currentByRide: Map<number, ForecastCurrentWaitTime | null>,
+    now: Date = new Date(),
+  ): Promise<Map<number, WaitTimeForecastPoint[]>> {
+    const forecasts = new Map<number, WaitTimeForecastPoint[]>();
+    if (rideIds.length === 0) {
+      return forecasts;
+    }
+
+    try {
+      const profiles = await this.getProfiles(rideIds, timezone);
+      const targets = this.getForecastTimes(timezone, now);
+
+      for (const rideId of rideIds) {
+        forecasts.set(
+          rideId,
+          this.predictAt(
+            profiles.get(rideId) ?? [],
+            timezone,
+            currentByRide.get(rideId) ?? null,
+            now,
+            targets,
+          ),
+        );
+      }
+    } catch (error) {
+      this.logger.warn(`Failed to forecast wait times: ${error}`);
+    }
+
+    return forecasts;
+  }
+
+  /**
+   * Predict the wait of a ride at the given moments from its profile and current wait.
+   * Moments without comparable history (e.g. outside usual operating hours) are omitted.
+   */
+  predictAt(
+    profile: ForecastProfileCell[],
+    timezone: string,
+    current: ForecastCurrentWaitTime | null,
+    now: Date,
+    targets: Date[],
+  ): WaitTimeForecastPoint[] {
+    if (profile.length === 0) {
+      return [];
+    }
+
+    const ratio = this.getDeviationRatio(profile, timezone, current, now);
+    const points: WaitTimeForecastPoint[] = [];
+
+    for (const time of targets) {
+      const cell = this.findCell(profile, this.getLocalTime(time, timezone));
+      if (!cell) continue;
+
+      const hoursAhead = Math.max(
+        0,
+        (time.getTime() - now.getTime()) / (3600 * 1000),
+      );
+      const decay =
+        this.PERSISTENT_DEVIATION_SHARE +
+        (1 - this.PERSISTENT_DEVIATION_SHARE) *
+          Math.pow(0.5, hoursAhead / this.DEVIATION_HALF_LIFE_HOURS);
+      const factor = 1 + (ratio - 1) * decay;
+
+      const predictedWait = Math.round(cell.p50 * factor);
+      points.push({
+        time,
+        predictedWait,
+        low: Math.min(predictedWait, Math.round(cell.p10 * factor)),
+        high: Math.max(predictedWait, Math.round(cell.p90 * factor)),
+      });
+    }
+
+    return points;
+  }
+
+  /**
+   * Build wait time profiles of rides from their open, non-suspect samples in [from, to)
+   */
+  async buildProfiles(
+    rideIds: number[],
+    timezone: string,
+    from: Date,
+    to: Date,
+  ): Promise<Map<number, ForecastProfileCell[]>> {
+    const rows: Array<{
+      rideId: number;
+      dayOfWeek: number;
+      hour: number;
+      quantiles: number[];
+      samples: string;
+    }> = await this.rideRepository.query(
+      `
+      SELECT qt."rideId",
+             EXTRACT(ISODOW FROM qt."lastUpdated" AT TIME ZONE $4)::int AS "dayOfWeek",
+             EXTRACT(HOUR FROM qt."lastUpdated" AT TIME ZONE $4)::int AS hour,
+             PERCENTILE_CONT(ARRAY[0.1, 0.5, 0.9]) WITHIN GROUP (ORDER BY qt."waitTime") AS quantiles,
+             COUNT(*) AS samples
+      FROM queue_time qt
+      WHERE qt."rideId" = ANY($1)
+        AND qt."lastUpdated" >= $2
+        AND qt."lastUpdated" < $3
+        AND qt."isOpen" = true
+        AND qt.suspect = false
+        AND qt."waitTime" IS NOT NULL
+      GROUP BY 1, 2, 3
+      `,
+      [rideIds, from.toISOString(), to.toISOString(), timezone],
+    );
+
+    const profiles = new Map<number, ForecastProfileCell[]>(
+      rideIds.map((rideId) => [rideId, []]),
+    );
+    for (const row of rows) {
+      profiles.get(row.rideId)?.push({
+        dayOfWeek: row.dayOfWeek,
+        hour: row.hour,
+        p10: row.quantiles[0],
+        p50: row.quantiles[1],
+        p90: row.quantiles[2],
+        samples: parseInt(row.samples, 10),
+      });
+    }
+    return profiles;
+  }
+
+  /**
+   * Forecast moments: every 30 minutes until the end of the local day, at least 3 hours ahead
+   */
+  getForecastTimes(timezone: string, now: Date): Date[] {
+    const stepMs = this.STEP_MINUTES * 60 * 1000;
+    const local = this.getLocalTime(now, timezone);
+    const minutesToMidnight = 24 * 60 - (local.hour * 60 + local.minute);
+    const end =
+      now.getTime() +
+      Math.max(minutesToMidnight, this.MIN_HORIZON_HOURS * 60) * 60 * 1000;
+
+    const times: Date[] = [];
+    for (
+      let time = Math.ceil(now.getTime() / stepMs) * stepMs;
+      time < end;
+      time += stepMs
+    ) {
+      times.push(new Date(time));
+    }
+    return times;
+  }
+
+  /**
+   * Get profiles over the configured lookback, cached per ride
+   */
+  private async getProfiles(
+    rideIds: number[],
+    timezone: string,
+  ): Promise<Map<number, ForecastProfileCell[]>> {
+    const profiles = new Map<number, ForecastProfileCell[]>();
+    const missing: number[] = [];
+
+    for (const rideId of rideIds) {
+      const cached = await this.cacheService.getAsync<ForecastProfileCell[]>(
+        `forecast_profile_${rideId}`,
+      );
+      if (cached) {
+        profiles.set(rideId, cached);
+      } else {
+        missing.push(rideId);
+      }
+    }
+
+    if (missing.length > 0) {
+      const lookbackDays = Number(
+        this.configService.get('FORECAST_LOOKBACK_DAYS', 56),
+      );
+      const to = new Date();
+      const from = new Date(to.getTime() - lookbackDays * 24 * 3600 * 1000);
+
+      const built = await this.buildProfiles(missing, timezone, from, to);
+      for (const [rideId, profile] of built) {
+        profiles.set(rideId, profile);
+        await this.cacheService.setAsync(
+          `forecast_profile_${rideId}`,
+          profile,
+          this.PROFILE_CACHE_TTL,
+        );
+      }
+    }
+
+    return profiles;
+  }
+
+  /**
+   * Ratio of the current wait to the profile median at this moment, 1 without a usable current wait
+   */
+  private getDeviationRatio(
+    profile: ForecastProfileCell[],
+    timezone: string,
+    current: ForecastCurrentWaitTime | null,
+    now: Date,
+  ): number {
+    if (
+      !current ||
+      !current.isOpen ||
+      current.suspect ||
+      current.waitTime === null
+    ) {
+      return 1;
+    }
+
+    if (
+      current.lastUpdated &&
+      now.getTime() - new Date(current.lastUpdated).getTime() >
+        this.MAX_CURRENT_AGE_MINUTES * 60 * 1000
+    ) {
+      return 1;
+    }
+
+    const cell = this.findCell(profile, this.getLocalTime(now, timezone));
+    if (!cell || cell.p50 < this.MIN_BASELINE_WAIT) {
+      return 1;
+    }
+
+    return Math.min(
+      this.MAX_RATIO,
+      Math.max(this.MIN_RATIO, current.waitTime / cell.p50),
+    );
+  }
+
+  /**
+   * Profile cell of a local moment, or the sample-weighted hour across all weekdays
+   */
+  private findCell(
+    profile: ForecastProfileCell[],
+    local: { dayOfWeek: number; hour: number },
+  ): ForecastProfileCell | null {
+    const cell = profile.find(
+      (c) => c.dayOfWeek === local.dayOfWeek && c.hour === local.hour,
+    );
+    if (cell && cell.samples >= this.MIN_CELL_SAMPLES) {
+      return cell;
+    }
+
+    const hourCells = profile.filter((c) => c.hour === local.hour);
+    const samples = hourCells.reduce((sum, c) => sum + c.samples, 0);
+    if (samples < this.MIN_CELL_SAMPLES) {
+      return null;
+    }
+
+    const weighted = (key: 'p10' | 'p50' | 'p90') =>
+      hourCells.reduce((sum, c) => sum + c[key] * c.samples, 0) / samples;
+
+    return {
+      dayOfWeek: local.dayOfWeek,
+      hour: local.hour,
+      p10: weighted('p10'),
+      p50: weighted('p50'),
+      p90: weighted('p90'),
+      samples,
+    };
+  }
+
+  private getLocalTime(
+    date: Date,
+    timezone: string,
+  ): { dayOfWeek: number; hour: number; minute: number } {
+    try {
+      const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        weekday: 'short',
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23',
+      }).formatToParts(date);
+      const part = (type: string) =>
+        parts.find((p) => p.type === type)?.value ?? '';
+
+      return {
+        dayOfWeek:
+          ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'].indexOf(
+            part('weekday'),
+          ) + 1,
+        hour: parseInt(part('hour'), 10),
+        minute: parseInt(part('minute'), 10),
+      };
+    } catch {
+      return {
+        dayOfWeek: date.getUTCDay() === 0 ? 7 : date.getUTCDay(),
+        hour: date.getUTCHours(),
+        minute: date.getUTCMinutes(),
+      };
+    }
+  }
+}
@@ -0,0 +1,182 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Ride } from '../parks/ride.entity.js';
+import { RideHistoryInterval, RideHistoryQueryDto } from './rides.dto.js';
+
+/**
+ * Bucket size and limits per history interval
+ */
+const INTERVALS: Record<
+  RideHistoryInterval,
+  { seconds: number; defaultRangeDays: number; maxRangeDays: number }
+> = {
+  '5m': { seconds: 300, defaultRangeDays: 1, maxRangeDays: 7 },
+  '1h': { seconds: 3600, defaultRangeDays: 7, maxRangeDays: 90 },
+  '1d': { seconds: 86400, defaultRangeDays: 90, maxRangeDays: 1095 },
+};
+
+interface HistoryBucketRow {
+  bucket: Date;
+  localDate: string | null;
+  samples: string | number;
+  openSamples: string | number;
+  minWait: number | null;
+  avgWait: string | number | null;
+  maxWait: number | null;
+  p90Wait: string | number | null;
+}
+
+/**
+ * Serves historical wait times of a ride aggregated into time buckets.
+ * Hour and day buckets follow the park's local time zone and are read from the
+ * queue time rollups, wait time statistics only use open, non-suspect samples.
+ */
+@Injectable()
+export class RideHistoryService {
+  constructor(
+    @InjectRepository(Ride)
+    private readonly rideRepository: Repository<Ride>,
+  ) {}
+
+  async findHistory(rideId: number, query: RideHistoryQueryDto = {}) {
+    const ride = await this.rideRepository.findOne({
+      where: { id: rideId },
+      relations: { park: true },
+    });
+
+    if (!ride) {
+      throw new NotFoundException(`Ride with ID ${rideId} not found`);
+    }
+
+    const interval = query.interval ?? '1h';
+    const { seconds, defaultRangeDays, maxRangeDays } = INTERVALS[interval];
+
+    const to = query.to ? new Date(query.to) : new Date();
+    const from = query.from
+      ? new Date(query.from)
+      : new Date(to.getTime() - defaultRangeDays * 24 * 3600 * 1000);
+
+    if (from >= to) {
+      throw new BadRequestException('from must be before to');
+    }
+    if (to.getTime() - from.getTime() > maxRangeDays * 24 * 3600 * 1000) {
+      throw new BadRequestException(
+        `The range for interval ${interval} must not exceed ${maxRangeDays} days`,
+      );
+    }
+
+    const rows =
+      interval === '5m'
+        ? await this.loadSampleBuckets(rideId, from, to, seconds)
+        : await this.loadRollupBuckets(
+            interval === '1h' ? 'queue_time_hourly' : 'queue_time_daily',
+            rideId,
+            from,
+            to,
+            ride.park.timezone,
+          );
+
+    return {
+      rideId: ride.id,
+      rideName: ride.name,
+      parkId: ride.park.id,
+      parkName: ride.park.name,
+      timezone: ride.park.timezone,
+      interval,
+      from,
+      to,
+      data: rows.map((row) => {
+        const samples = Number(row.samples);
+        return {
+          timestamp: row.bucket,
+          ...(interval === '1d' ? { date: row.localDate } : {}),
+          minWaitTime: row.minWait,
+          avgWaitTime:
+            row.avgWait !== null ? Math.round(Number(row.avgWait)) : null,
+          maxWaitTime: row.maxWait,
+          p90WaitTime:
+            row.p90Wait !== null ? Math.round(Number(row.p90Wait)) : null,
+          openRatio:
+            samples > 0
+              ? Math.round((Number(row.openSamples) / samples) * 100) / 100
+              : 0,
+          sampleCount: samples,
+        };
+      }),
+    };
+  }
+
+  /**
+   * Aggregate raw samples into buckets aligned to the epoch
+   */
+  private async loadSampleBuckets(
+    rideId: number,
+    from: Date,
+    to: Date,
+    seconds: number,
+  ): Promise<HistoryBucketRow[]> {
+    return this.rideRepository.query(
+      `
+      SELECT TO_TIMESTAMP(FLOOR(EXTRACT(EPOCH FROM qt."lastUpdated") / ${seconds}) * ${seconds}) AS bucket,
+             NULL AS "localDate",
+             COUNT(*) AS samples,
+             COUNT(*) FILTER (WHERE qt."isOpen") AS "openSamples",
+             MIN(qt."waitTime") FILTER (WHERE qt."isOpen" AND NOT qt.suspect) AS "minWait",
+             AVG(qt."waitTime") FILTER (WHERE qt."isOpen" AND NOT qt.suspect) AS "avgWait",
+             MAX(qt."waitTime") FILTER (WHERE qt."isOpen" AND NOT qt.suspect) AS "maxWait",
+             PERCENTILE_CONT(0.9) WITHIN GROUP (ORDER BY qt."waitTime")
+               FILTER (WHERE qt."isOpen" AND NOT qt.suspect) AS "p90Wait"
+      FROM queue_time qt
+      WHERE qt."rideId" = $1
+        AND qt."lastUpdated" >= $2
+        AND qt."lastUpdated" < $3
+      GROUP BY bucket
+      ORDER BY bucket ASC
+      `,
+      [rideId, from.toISOString(), to.toISOString()],
+    );
+  }
+
+  /**
+   * Read local hour or day buckets overlapping the range from the rollups
+   */
+  private async loadRollupBuckets(
+    table: 'queue_time_hourly' | 'queue_time_daily',
+    rideId: number,
+    from: Date,
+    to: Date,
+    timezone: string,
+  ): Promise<HistoryBucketRow[]> {
+    const bucketExpression =
+      table === 'queue_time_hourly'
+        ? 'rollup.hour'
+        : 'rollup.date::timestamp AT TIME ZONE $4';
+
+    return this.rideRepository.query(
+      `
+      SELECT bucket,
+             TO_CHAR(bucket AT TIME ZONE $4, 'YYYY-MM-DD') AS "localDate",
+             "sampleCount" AS samples,
+             "openSampleCount" AS "openSamples",
+             "minWait",
+             "avgWait",
+             "maxWait",
+             "p90Wait"
+      FROM (
+        SELECT ${bucketExpression} AS bucket, rollup.*
+        FROM ${table} rollup
+        WHERE rollup."rideId" = $1
+      ) buckets
+      WHERE bucket < $3
+        AND bucket > $2::timestamptz - INTERVAL '1 ${table === 'queue_time_hourly' ? 'hour' : 'day'}'
+      ORDER BY bucket ASC
+      `,
+      [rideId, from.toISOString(), to.toISOString(), timezone],
+    );
+  }
+}
@@ -0,0 +1,266 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import {
+  RELIABILITY_WINDOWS,
+  ReliabilityWindow,
+  RideReliability,
+} from '../parks/ride-reliability.entity.js';
+
+/**
+ * Reliability of a ride over one window as returned by the API
+ */
+export interface RideReliabilitySummary {
+  uptimePercentage: number;
+  meanTimeBetweenBreakdownsMinutes: number | null;
+  averageDowntimeMinutes: number | null;
+  downtimes: number;
+  operatingMinutes: number;
+  computedAt: Date;
+}
+
+/**
+ * Aggregated reliability of all rated rides of a park over one window
+ */
+export interface ParkReliabilitySummary {
+  uptimePercentage: number;
+  meanTimeBetweenBreakdownsMinutes: number | null;
+  averageDowntimeMinutes: number | null;
+  downtimes: number;
+  ridesRated: number;
+}
+
+/**
+ * Computes and serves ride reliability per rolling window:
+ * - uptime: share of time within the park's daily operating window (first to last
+ *   open ride) where the ride was open. A sample lasts until the ride's next sample,
+ *   at most MAX_SAMPLE_GAP_MINUTES unless the next sample repeats its state, so runs
+ *   compressed by QueueTimeRetentionService keep their length
+ * - mean time between breakdowns: open minutes divided by the number of downtimes
+ * - average downtime length from RideDowntime
+ * Results are stored in ride_reliability so rides can be sorted by reliability.
+ */
+@Injectable()
+export class RideReliabilityService {
+  private readonly logger = new Logger(RideReliabilityService.name);
+
+  private readonly MAX_SAMPLE_GAP_MINUTES = 30; // A sample counts for at most this many minutes
+
+  constructor(
+    @InjectRepository(RideReliability)
+    private readonly reliabilityRepository: Repository<RideReliability>,
+  ) {}
+
+  /**
+   * Recompute reliability of all rides for one window
+   * @returns Number of rated rides
+   */
+  async refresh(windowDays: ReliabilityWindow): Promise<number> {
+    const computedAt = new Date();
+    const since = new Date(
+      computedAt.getTime() - windowDays * 24 * 3600 * 1000,
+    );
+
+    const rows: Array<{ rideId: number }> =
+      await this.reliabilityRepository.query(
+        `
+        WITH samples AS (
+          SELECT qt."rideId",
+                 r."parkId",
+                 qt."isOpen",
+                 qt."lastUpdated",
+                 (qt."lastUpdated" AT TIME ZONE p.timezone)::date AS local_date,
+                 LEAD(qt."lastUpdated") OVER w AS next_at,
+                 LEAD(qt."isOpen") OVER w = qt."isOpen" AS next_repeats
+          FROM queue_time qt
+          INNER JOIN ride r ON r.id = qt."rideId"
+          INNER JOIN park p ON p.id = r."parkId"
+          WHERE qt."lastUpdated" >= $1
+          WINDOW w AS (PARTITION BY qt."rideId" ORDER BY qt."lastUpdated")
+        ),
+        park_days AS (
+          SELECT "parkId", local_date,
+                 MIN("lastUpdated") AS opened_at,
+                 MAX("lastUpdated") AS closed_at
+          FROM samples
+          WHERE "isOpen"
+          GROUP BY "parkId", local_date
+        ),
+        park_operating AS (
+          SELECT "parkId",
+                 SUM(EXTRACT(EPOCH FROM (closed_at - opened_at)) / 60) AS operating_minutes
+          FROM park_days
+          GROUP BY "parkId"
+        ),
+        sample_minutes AS (
+          -- Samples last until the next one, but not beyond the park's closing
+          SELECT s."rideId", s."parkId", s."isOpen",
+                 (EXTRACT(EPOCH FROM (
+                   LEAST(
+                     s.next_at,
+                     d.closed_at,
+                     CASE WHEN s.next_repeats IS NOT TRUE
+                       THEN s."lastUpdated" + MAKE_INTERVAL(mins => $4::int)
+                     END
+                   ) - s."lastUpdated"
+                 )) / 60)::numeric AS minutes
+          FROM samples s
+          INNER JOIN park_days d
+            ON d."parkId" = s."parkId"
+           AND d.local_date = s.local_date
+          WHERE s."lastUpdated" BETWEEN d.opened_at AND d.closed_at
+        ),
+        ride_usage AS (
+          SELECT "rideId", "parkId",
+                 COUNT(*) AS samples,
+                 SUM(minutes) AS minutes,
+                 COALESCE(SUM(minutes) FILTER (WHERE "isOpen"), 0) AS open_minutes
+          FROM sample_minutes
+          GROUP BY "rideId", "parkId"
+          HAVING SUM(minutes) > 0
+        ),
+        ride_downtimes AS (
+          SELECT "rideId",
+                 COUNT(*) AS downtimes,
+                 AVG("durationMinutes") AS average_downtime
+          FROM ride_downtime
+          WHERE "startedAt" >= $1
+          GROUP BY "rideId"
+        )
+        INSERT INTO ride_reliability (
+          "rideId", "windowDays", "uptimePercentage", "operatingMinutes", "sampleCount",
+          "downtimes", "meanTimeBetweenBreakdownsMinutes", "averageDowntimeMinutes", "computedAt"
+        )
+        SELECT u."rideId",
+               $2,
+               ROUND(100.0 * u.open_minutes / u.minutes, 1),
+               ROUND(o.operating_minutes),
+               u.samples,
+               COALESCE(dt.downtimes, 0),
+               CASE WHEN dt.downtimes > 0
+                 THEN ROUND(o.operating_minutes * u.open_minutes / u.minutes / dt.downtimes)
+               END,
+               ROUND(dt.average_downtime),
+               $3
+        FROM ride_usage u
+        INNER JOIN park_operating o ON o."parkId" = u."parkId"
+        LEFT JOIN ride_downtimes dt ON dt."rideId" = u."rideId"
+        ON CONFLICT ("rideId", "windowDays") DO UPDATE
+          SET "uptimePercentage" = EXCLUDED."uptimePercentage",
+              "operatingMinutes" = EXCLUDED."operatingMinutes",
+              "sampleCount" = EXCLUDED."sampleCount",
+              "downtimes" = EXCLUDED."downtimes",
+              "meanTimeBetweenBreakdownsMinutes" = EXCLUDED."meanTimeBetweenBreakdownsMinutes",
+              "averageDowntimeMinutes" = EXCLUDED."averageDowntimeMinutes",
+              "computedAt" = EXCLUDED."computedAt"
+        RETURNING "rideId"
+        `,
+        [
+          since.toISOString(),
+          windowDays,
+          computedAt.toISOString(),
+          this.MAX_SAMPLE_GAP_MINUTES,
+        ],
+      );
+
+    // Rides without operating samples in the window are no longer rated
+    await this.reliabilityRepository
+      .createQueryBuilder()
+      .delete()
+      .where('"windowDays" = :windowDays', { windowDays })
+      .andWhere('"computedAt" < :computedAt', { computedAt })
+      .execute();
+
+    this.logger.log(
+      `Refreshed ${windowDays}-day reliability of ${rows.length} rides`,
+    );
+    return rows.length;
+  }
+
+  /**
+   * Get the reliability of a ride for all windows, keyed as "7d", "30d" and "365d"
+   */
+  async findForRide(
+    rideId: number,
+  ): Promise<Record<string, RideReliabilitySummary | null>> {
+    const rows = await this.reliabilityRepository.find({ where: { rideId } });
+
+    const result: Record<string, RideReliabilitySummary | null> = {};
+    for (const windowDays of RELIABILITY_WINDOWS) {
+      const row = rows.find((r) => r.windowDays === windowDays);
+      result[`${windowDays}d`] = row ? this.toSummary(row) : null;
+    }
+    return result;
+  }
+
+  /**
+   * Get the aggregated reliability of a park's rides for all windows
+   */
+  async findForPark(
+    parkId: number,
+  ): Promise<Record<string, ParkReliabilitySummary | null>> {
+    const rows: Array<{
+      windowDays: number;
+      ridesRated: string;
+      uptimePercentage: string;
+      openMinutes: string;
+      downtimes: string;
+      downtimeMinutes: string;
+    }> = await this.reliabilityRepository
+      .createQueryBuilder('reliability')
+      .innerJoin('reliability.ride', 'ride')
+      .select('reliability.windowDays', 'windowDays')
+      .addSelect('COUNT(*)', 'ridesRated')
+      .addSelect('AVG(reliability.uptimePercentage)', 'uptimePercentage')
+      .addSelect(
+        'SUM(reliability.operatingMinutes * reliability.uptimePercentage / 100)',
+        'openMinutes',
+      )
+      .addSelect('SUM(reliability.downtimes)', 'downtimes')
+      .addSelect(
+        'SUM(reliability.downtimes * COALESCE(reliability.averageDowntimeMinutes, 0))',
+        'downtimeMinutes',
+      )
+      .where('ride."parkId" = :parkId', { parkId })
+      .andWhere('ride.isActive = true')
+      .groupBy('reliability.windowDays')
+      .getRawMany();
+
+    const result: Record<string, ParkReliabilitySummary | null> = {};
+    for (const windowDays of RELIABILITY_WINDOWS) {
+      const row = rows.find((r) => Number(r.windowDays) === windowDays);
+      if (!row) {
+        result[`${windowDays}d`] = null;
+        continue;
+      }
+
+      const downtimes = parseInt(row.downtimes, 10);
+      result[`${windowDays}d`] = {
+        uptimePercentage:
+          Math.round(parseFloat(row.uptimePercentage) * 10) / 10,
+        meanTimeBetweenBreakdownsMinutes:
+          downtimes > 0
+            ? Math.round(parseFloat(row.openMinutes) / downtimes)
+            : null,
+        averageDowntimeMinutes:
+          downtimes > 0
+            ? Math.round(parseFloat(row.downtimeMinutes) / downtimes)
+            : null,
+        downtimes,
+        ridesRated: parseInt(row.ridesRated, 10),
+      };
+    }
+    return result;
+  }
+
+  toSummary(row: RideReliability): RideReliabilitySummary {
+    return {
+      uptimePercentage: row.uptimePercentage,
+      meanTimeBetweenBreakdownsMinutes: row.meanTimeBetweenBreakdownsMinutes,
+      averageDowntimeMinutes: row.averageDowntimeMinutes,
+      downtimes: row.downtimes,
+      operatingMinutes: row.operatingMinutes,
+      computedAt: row.computedAt,
+    };
+  }
+}
@@ -1,12 +1,23 @@
 import { Controller, Get, Param, Query, ParseIntPipe } from '@nestjs/common';
 import { RidesService } from './rides.service.js';
-import { RideQueryDto } from './rides.dto.js';
+import { RideDowntimeService } from './ride-downtime.service.js';
+import { RideHistoryService } from './ride-history.service.js';
+import { WaitTimeHeatmapService } from './wait-time-heatmap.service.js';
+import {
+  RideDowntimeQueryDto,
+  RideHistoryQueryDto,
+  RideQueryDto,
+  WaitTimeHeatmapQueryDto,
+} from './rides.dto.js';
 import { HierarchicalUrlInjectorService } from '../utils/hierarchical-url-injector.service.js';
 
 @Controller('rides')
 export class RidesController {
   constructor(
     private readonly ridesService: RidesService,
+    private readonly rideDowntimeService: RideDowntimeService,
+    private readonly rideHistoryService: RideHistoryService,
+    private readonly heatmapService: WaitTimeHeatmapService,
     private readonly urlInjector: HierarchicalUrlInjectorService,
   ) {}
 
@@ -28,4 +39,37 @@ export class RidesController {
     // Add hierarchical URLs to the response using the injector
     return this.urlInjector.addUrlToRide(ride);
   }
+
+  /**
+   * Get breakdowns of a ride (closed and reopened within an operating day)
+   */
+  @Get(':id/downtime')
+  async findDowntime(
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: RideDowntimeQueryDto,
+  ) {
+    return this.rideDowntimeService.findRideDowntimes(id, query);
+  }
+
+  /**
+   * Get historical wait times of a ride in 5-minute, hourly or daily buckets
+   */
+  @Get(':id/history')
+  async findHistory(
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: RideHistoryQueryDto,
+  ) {
+    return this.rideHistoryService.findHistory(id, query);
+  }
+
+  /**
+   * Get the typical wait of a ride per local day of week and hour
+   */
+  @Get(':id/heatmap')
+  async findHeatmap(
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: WaitTimeHeatmapQueryDto,
+  ) {
+    return this.heatmapService.findRideHeatmap(id, query);
+  }
 }
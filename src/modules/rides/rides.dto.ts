@@ -5,8 +5,15 @@ import {
   IsBoolean,
   Min,
   Max,
+  IsDateString,
+  IsIn,
+  IsInt,
 } from 'class-validator';
 import { Type, Transform } from 'class-transformer';
+import {
+  RELIABILITY_WINDOWS,
+  ReliabilityWindow,
+} from '../parks/ride-reliability.entity.js';
 
 export class RideQueryDto {
   @IsOptional()
@@ -27,6 +34,20 @@ export class RideQueryDto {
   @IsBoolean()
   isActive?: boolean = true; // Default to true (only active rides)
 
+  @IsOptional()
+  @IsIn(['name', 'reliability'])
+  sortBy?: 'name' | 'reliability' = 'name';
+
+  @IsOptional()
+  @IsIn(['asc', 'desc'])
+  sortOrder?: 'asc' | 'desc';
+
+  // Window of the reliability included with each ride and used for sorting
+  @IsOptional()
+  @Type(() => Number)
+  @IsIn(RELIABILITY_WINDOWS)
+  reliabilityWindow?: ReliabilityWindow = 30;
+
   @IsOptional()
   @Type(() => Number)
   @IsNumber()
@@ -40,3 +61,39 @@ export class RideQueryDto {
   @Max(100)
   limit?: number = 50;
 }
+
+export class RideDowntimeQueryDto {
+  @IsOptional()
+  @IsDateString()
+  from?: string; // ISO date or timestamp, inclusive
+
+  @IsOptional()
+  @IsDateString()
+  to?: string; // ISO date or timestamp, inclusive
+}
+
+export const RIDE_HISTORY_INTERVALS = ['5m', '1h', '1d'] as const;
+export type RideHistoryInterval = (typeof RIDE_HISTORY_INTERVALS)[number];
+
+export class RideHistoryQueryDto {
+  @IsOptional()
+  @IsDateString()
+  from?: string; // ISO date or timestamp, inclusive
+
+  @IsOptional()
+  @IsDateString()
+  to?: string; // ISO date or timestamp, exclusive
+
+  @IsOptional()
+  @IsIn(RIDE_HISTORY_INTERVALS)
+  interval?: RideHistoryInterval = '1h';
+}
+
+export class WaitTimeHeatmapQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(7)
+  @Max(730)
+  lookbackDays?: number; // Defaults to HEATMAP_LOOKBACK_DAYS
+}
@@ -2,13 +2,70 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { RidesController } from './rides.controller.js';
 import { RidesService } from './rides.service.js';
+import { RideDowntimeService } from './ride-downtime.service.js';
+import { RideReliabilityService } from './ride-reliability.service.js';
+import { RideHistoryService } from './ride-history.service.js';
+import { WaitTimeHeatmapService } from './wait-time-heatmap.service.js';
+import { RideForecastService } from './ride-forecast.service.js';
+import { RideForecastBacktestService } from './ride-forecast-backtest.service.js';
+import { QueueTimeRollupService } from './queue-time-rollup.service.js';
+import { QueueTimeRetentionService } from './queue-time-retention.service.js';
+import { QueueTimePartitionService } from './queue-time-partition.service.js';
+import { RideCrowdBaselineService } from './ride-crowd-baseline.service.js';
 import { Ride } from '../parks/ride.entity.js';
+import { Park } from '../parks/park.entity.js';
+import { QueueTime } from '../parks/queue-time.entity.js';
+import { RideDowntime } from '../parks/ride-downtime.entity.js';
+import { RideReliability } from '../parks/ride-reliability.entity.js';
+import { RideCrowdBaseline } from '../parks/ride-crowd-baseline.entity.js';
+import {
+  QueueTimeDaily,
+  QueueTimeHourly,
+} from '../parks/queue-time-rollup.entity.js';
+import { QueueTimeCompaction } from '../parks/queue-time-compaction.entity.js';
 import { UtilsModule } from '../utils/utils.module.js';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Ride]), UtilsModule],
+  imports: [
+    TypeOrmModule.forFeature([
+      Ride,
+      Park,
+      QueueTime,
+      RideDowntime,
+      RideReliability,
+      RideCrowdBaseline,
+      QueueTimeHourly,
+      QueueTimeDaily,
+      QueueTimeCompaction,
+    ]),
+    UtilsModule,
+  ],
   controllers: [RidesController],
-  providers: [RidesService],
-  exports: [RidesService],
+  providers: [
+    RidesService,
+    RideDowntimeService,
+    RideReliabilityService,
+    RideHistoryService,
+    WaitTimeHeatmapService,
+    RideForecastService,
+    RideForecastBacktestService,
+    QueueTimeRollupService,
+    QueueTimeRetentionService,
+    QueueTimePartitionService,
+    RideCrowdBaselineService,
+  ],
+  exports: [
+    RidesService,
+    RideDowntimeService,
+    RideReliabilityService,
+    RideHistoryService,
+    WaitTimeHeatmapService,
+    RideForecastService,
+    RideForecastBacktestService,
+    QueueTimeRollupService,
+    QueueTimeRetentionService,
+    QueueTimePartitionService,
+    RideCrowdBaselineService,
+  ],
 })
 export class RidesModule {}
@@ -5,6 +5,9 @@ import { Ride } from '../parks/ride.entity.js';
 import { RideQueryDto } from './rides.dto.js';
 import { ParkUtilsService } from '../utils/park-utils.service.js';
 import { CacheService } from '../utils/cache.service.js';
+import { QueueTime as QueueTimeType } from '../utils/park-utils.types.js';
+import { RideReliabilityService } from './ride-reliability.service.js';
+import { RideForecastService } from './ride-forecast.service.js';
 
 @Injectable()
 export class RidesService {
@@ -13,18 +16,35 @@ export class RidesService {
     private readonly rideRepository: Repository<Ride>,
     private readonly parkUtils: ParkUtilsService,
     private readonly cacheService: CacheService,
+    private readonly rideReliability: RideReliabilityService,
+    private readonly rideForecast: RideForecastService,
   ) {}
 
   /**
    * Get all rides with optional filtering
    */
   async findAll(query: RideQueryDto = {}) {
-    const { search, parkId, isActive = true, page = 1, limit = 50 } = query;
+    const {
+      search,
+      parkId,
+      isActive = true,
+      sortBy = 'name',
+      sortOrder,
+      reliabilityWindow = 30,
+      page = 1,
+      limit = 50,
+    } = query;
 
     const queryBuilder = this.rideRepository
       .createQueryBuilder('ride')
       .leftJoinAndSelect('ride.park', 'park')
-      .leftJoinAndSelect('ride.themeArea', 'themeArea');
+      .leftJoinAndSelect('ride.themeArea', 'themeArea')
+      .leftJoinAndSelect(
+        'ride.reliabilities',
+        'reliability',
+        'reliability.windowDays = :reliabilityWindow',
+        { reliabilityWindow },
+      );
 
     // Apply filters
     if (search) {
@@ -47,13 +67,23 @@ export class RidesService {
     const offset = (page - 1) * limit;
     queryBuilder.skip(offset).take(limit);
 
-    // Order by name
-    queryBuilder.orderBy('ride.name', 'ASC');
+    if (sortBy === 'reliability') {
+      // Most reliable first by default, unrated rides last
+      queryBuilder
+        .orderBy(
+          'reliability.uptimePercentage',
+          sortOrder === 'asc' ? 'ASC' : 'DESC',
+          'NULLS LAST',
+        )
+        .addOrderBy('ride.name', 'ASC');
+    } else {
+      queryBuilder.orderBy('ride.name', sortOrder === 'desc' ? 'DESC' : 'ASC');
+    }
 
     const rides = await queryBuilder.getMany();
 
     const rideIds = rides.map((ride) => ride.id);
-    const queueTimeMap = new Map();
+    const queueTimeMap = new Map<number, QueueTimeType>();
 
     if (rideIds.length > 0) {
       // Use Redis cache instead of database query
@@ -81,6 +111,13 @@ export class RidesService {
           }
         : null,
       currentQueueTime: queueTimeMap.get(ride.id) || null,
+      reliability:
+        ride.reliabilities && ride.reliabilities.length > 0
+          ? {
+              windowDays: reliabilityWindow,
+              ...this.rideReliability.toSummary(ride.reliabilities[0]),
+            }
+          : null,
     }));
 
     return {
@@ -114,6 +151,14 @@ export class RidesService {
 
     // Use cache instead of database query
     const currentQueueTime = await this.getLatestQueueTimeFromCache(ride.id);
+    const reliability = await this.rideReliability.findForRide(ride.id);
+    const forecast = ride.isActive
+      ? await this.rideForecast.forecastRide(
+          ride.id,
+          ride.park.timezone,
+          currentQueueTime,
+        )
+      : [];
 
     return {
       id: ride.id,
@@ -122,22 +167,28 @@ export class RidesService {
       park: ride.park,
       themeArea: ride.themeArea,
       currentQueueTime,
+      reliability,
+      forecast,
     };
   }
 
   /**
    * Get the latest queue time for a specific ride from Redis cache
    */
-  async getLatestQueueTimeFromCache(rideId: number): Promise<any | null> {
+  async getLatestQueueTimeFromCache(
+    rideId: number,
+  ): Promise<QueueTimeType | null> {
     try {
       const cacheKey = `latest_queue_time_${rideId}`;
-      const cachedData = (await this.cacheService.getAsync(cacheKey)) as any;
+      const cachedData =
+        await this.cacheService.getAsync<QueueTimeType>(cacheKey);
 
       if (cachedData && cachedData.waitTime !== undefined) {
         return {
           waitTime: cachedData.waitTime,
           isOpen: cachedData.isOpen,
           lastUpdated: cachedData.lastUpdated,
+          suspect: cachedData.suspect ?? false,
         };
       }
 
@@ -156,8 +207,8 @@ export class RidesService {
    */
   async getLatestQueueTimesFromCache(
     rideIds: number[],
-  ): Promise<Map<number, any>> {
-    const queueTimesMap = new Map<number, any>();
+  ): Promise<Map<number, QueueTimeType>> {
+    const queueTimesMap = new Map<number, QueueTimeType>();
 
     if (rideIds.length === 0) {
       return queueTimesMap;
@@ -193,12 +244,13 @@ export class RidesService {
 
         if (result) {
           try {
-            const cachedData = JSON.parse(result as string);
+            const cachedData = JSON.parse(result as string) as QueueTimeType;
             if (cachedData && cachedData.waitTime !== undefined) {
               queueTimesMap.set(rideIds[index], {
                 waitTime: cachedData.waitTime,
                 isOpen: cachedData.isOpen,
                 lastUpdated: cachedData.lastUpdated,
+                suspect: cachedData.suspect ?? false,
               });
             }
           } catch (parseError) {
@@ -0,0 +1,209 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Ride } from '../parks/ride.entity.js';
+import { Park } from '../parks/park.entity.js';
+import { CacheService } from '../utils/cache.service.js';
+import { WaitTimeHeatmapQueryDto } from './rides.dto.js';
+
+/**
+ * Typical wait of one day-of-week × hour-of-day cell in the park's local time
+ */
+export interface WaitTimeHeatmapCell {
+  dayOfWeek: number; // ISO day of week, 1 = Monday ... 7 = Sunday
+  hour: number; // 0-23
+  typicalWaitTime: number; // Median wait in minutes
+  averageWaitTime: number;
+  sampleCount: number;
+  rideCount?: number; // Park heatmaps only: rides contributing to the cell
+}
+
+interface HeatmapRow {
+  dayOfWeek: number;
+  hour: number;
+  typicalWait: string;
+  averageWait: string;
+  samples: string;
+  rides?: string; // Park heatmaps only
+}
+
+/**
+ * Builds best-time-to-ride heatmaps from the queue time history: typical wait per
+ * local day of week and hour over a lookback window. Only open, non-suspect samples
+ * are used, a park cell averages the typical waits of its active rides.
+ */
+@Injectable()
+export class WaitTimeHeatmapService {
+  private readonly MIN_CELL_SAMPLES = 5; // Cells with fewer samples are not suggested as quietest
+  private readonly QUIETEST_CELLS = 3;
+  private readonly CACHE_TTL = 6 * 3600; // 6 hours
+
+  constructor(
+    @InjectRepository(Ride)
+    private readonly rideRepository: Repository<Ride>,
+    @InjectRepository(Park)
+    private readonly parkRepository: Repository<Park>,
+    private readonly configService: ConfigService,
+    private readonly cacheService: CacheService,
+  ) {}
+
+  /**
+   * Get the wait time heatmap of a ride
+   */
+  async findRideHeatmap(rideId: number, query: WaitTimeHeatmapQueryDto = {}) {
+    const ride = await this.rideRepository.findOne({
+      where: { id: rideId },
+      relations: { park: true },
+    });
+
+    if (!ride) {
+      throw new NotFoundException(`Ride with ID ${rideId} not found`);
+    }
+
+    const lookbackDays = this.getLookbackDays(query);
+    const cacheKey = `ride_heatmap_${rideId}_${lookbackDays}`;
+    const cached =
+      await this.cacheService.getAsync<WaitTimeHeatmapCell[]>(cacheKey);
+
+    let cells = cached;
+    if (!cells) {
+      const rows: HeatmapRow[] = await this.rideRepository.query(
+        `
+        SELECT EXTRACT(ISODOW FROM qt."lastUpdated" AT TIME ZONE $3)::int AS "dayOfWeek",
+               EXTRACT(HOUR FROM qt."lastUpdated" AT TIME ZONE $3)::int AS hour,
+               PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY qt."waitTime") AS "typicalWait",
+               AVG(qt."waitTime") AS "averageWait",
+               COUNT(*) AS samples
+        FROM queue_time qt
+        WHERE qt."rideId" = $1
+          AND qt."lastUpdated" >= $2
+          AND qt."isOpen" = true
+          AND qt.suspect = false
+          AND qt."waitTime" IS NOT NULL
+        GROUP BY 1, 2
+        ORDER BY 1, 2
+        `,
+        [rideId, this.getSince(lookbackDays).toISOString(), ride.park.timezone],
+      );
+
+      cells = rows.map((row) => this.toCell(row));
+      await this.cacheService.setAsync(cacheKey, cells, this.CACHE_TTL);
+    }
+
+    return {
+      rideId: ride.id,
+      rideName: ride.name,
+      parkId: ride.park.id,
+      parkName: ride.park.name,
+      timezone: ride.park.timezone,
+      lookbackDays,
+      cells,
+      quietest: this.findQuietest(cells),
+    };
+  }
+
+  /**
+   * Get the wait time heatmap of a park across its active rides
+   */
+  async findParkHeatmap(parkId: number, query: WaitTimeHeatmapQueryDto = {}) {
+    const park = await this.parkRepository.findOne({
+      where: { id: parkId },
+      select: ['id', 'name', 'timezone'],
+    });
+
+    if (!park) {
+      throw new NotFoundException(`Park with ID ${parkId} not found`);
+    }
+
+    const lookbackDays = this.getLookbackDays(query);
+    const cacheKey = `park_heatmap_${parkId}_${lookbackDays}`;
+    const cached =
+      await this.cacheService.getAsync<WaitTimeHeatmapCell[]>(cacheKey);
+
+    let cells = cached;
+    if (!cells) {
+      const rows: HeatmapRow[] = await this.parkRepository.query(
+        `
+        WITH ride_cells AS (
+          SELECT qt."rideId",
+                 EXTRACT(ISODOW FROM qt."lastUpdated" AT TIME ZONE $3)::int AS "dayOfWeek",
+                 EXTRACT(HOUR FROM qt."lastUpdated" AT TIME ZONE $3)::int AS hour,
+                 PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY qt."waitTime") AS typical_wait,
+                 AVG(qt."waitTime") AS average_wait,
+                 COUNT(*) AS samples
+          FROM queue_time qt
+          INNER JOIN ride r ON r.id = qt."rideId"
+          WHERE r."parkId" = $1
+            AND r."isActive" = true
+            AND qt."lastUpdated" >= $2
+            AND qt."isOpen" = true
+            AND qt.suspect = false
+            AND qt."waitTime" IS NOT NULL
+          GROUP BY 1, 2, 3
+        )
+        SELECT "dayOfWeek",
+               hour,
+               AVG(typical_wait) AS "typicalWait",
+               AVG(average_wait) AS "averageWait",
+               SUM(samples) AS samples,
+               COUNT(*) AS rides
+        FROM ride_cells
+        GROUP BY "dayOfWeek", hour
+        ORDER BY "dayOfWeek", hour
+        `,
+        [parkId, this.getSince(lookbackDays).toISOString(), park.timezone],
+      );
+
+      cells = rows.map((row) => this.toCell(row));
+      await this.cacheService.setAsync(cacheKey, cells, this.CACHE_TTL);
+    }
+
+    return {
+      parkId: park.id,
+      parkName: park.name,
+      timezone: park.timezone,
+      lookbackDays,
+      cells,
+      quietest: this.findQuietest(cells),
+    };
+  }
+
+  private getLookbackDays(query: WaitTimeHeatmapQueryDto): number {
+    return (
+      query.lookbackDays ??
+      Number(this.configService.get('HEATMAP_LOOKBACK_DAYS', 90))
+    );
+  }
+
+  private getSince(lookbackDays: number): Date {
+    return new Date(Date.now() - lookbackDays * 24 * 3600 * 1000);
+  }
+
+  private toCell(row: HeatmapRow): WaitTimeHeatmapCell {
+    return {
+      dayOfWeek: row.dayOfWeek,
+      hour: row.hour,
+      typicalWaitTime: Math.round(parseFloat(row.typicalWait)),
+      averageWaitTime: Math.round(parseFloat(row.averageWait)),
+      sampleCount: parseInt(row.samples, 10),
+      ...(row.rides !== undefined
+        ? { rideCount: parseInt(row.rides, 10) }
+        : {}),
+    };
+  }
+
+  /**
+   * Cells with the lowest typical wait and enough samples to be trusted
+   */
+  private findQuietest(cells: WaitTimeHeatmapCell[]): WaitTimeHeatmapCell[] {
+    return cells
+      .filter((cell) => cell.sampleCount >= this.MIN_CELL_SAMPLES)
+      .sort(
+        (a, b) =>
+          a.typicalWaitTime - b.typicalWaitTime ||
+          a.averageWaitTime - b.averageWaitTime,
+      )
+      .slice(0, this.QUIETEST_CELLS);
+  }
+}
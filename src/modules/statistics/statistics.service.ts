@@ -142,6 +142,14 @@ export class StatisticsService {
     return await this.ridesService.getLatestQueueTimesFromCache(rideIds);
   }
 
+  /**
+   * Whether a queue time's wait counts towards wait time statistics.
+   * Suspect waits are left out, their open status still counts.
+   */
+  private hasTrustedWaitTime(queueTime: QueueTime | undefined): boolean {
+    return !!queueTime && !queueTime.suspect && queueTime.waitTime !== null;
+  }
+
   /**
    * Calculate park operating status by continent
    */
@@ -267,13 +275,15 @@ export class StatisticsService {
         if (currentQueueTime.isOpen) {
           openRides++;
 
-          // Categorize wait times
-          const waitTime = currentQueueTime.waitTime;
-          if (waitTime <= 10) waitTimeDistribution['0-10']++;
-          else if (waitTime <= 30) waitTimeDistribution['11-30']++;
-          else if (waitTime <= 60) waitTimeDistribution['31-60']++;
-          else if (waitTime <= 120) waitTimeDistribution['61-120']++;
-          else waitTimeDistribution['120+']++;
+          // Categorize wait times, leaving out suspect ones
+          if (this.hasTrustedWaitTime(currentQueueTime)) {
+            const waitTime = currentQueueTime.waitTime;
+            if (waitTime <= 10) waitTimeDistribution['0-10']++;
+            else if (waitTime <= 30) waitTimeDistribution['11-30']++;
+            else if (waitTime <= 60) waitTimeDistribution['31-60']++;
+            else if (waitTime <= 120) waitTimeDistribution['61-120']++;
+            else waitTimeDistribution['120+']++;
+          }
         }
       }
     });
@@ -405,7 +415,11 @@ export class StatisticsService {
           lastUpdated: currentQueueTime ? currentQueueTime.lastUpdated : null,
         };
       })
-      .filter((ride) => ride.isOpen && ride.waitTime !== null)
+      .filter(
+        (ride) =>
+          ride.isOpen &&
+          this.hasTrustedWaitTime(this.currentQueueTimesMap.get(ride.rideId)),
+      )
       .sort((a, b) => (b.waitTime || 0) - (a.waitTime || 0))
       .slice(0, 5);
   }
@@ -429,7 +443,11 @@ export class StatisticsService {
           lastUpdated: currentQueueTime ? currentQueueTime.lastUpdated : null,
         };
       })
-      .filter((ride) => ride.isOpen && ride.waitTime !== null)
+      .filter(
+        (ride) =>
+          ride.isOpen &&
+          this.hasTrustedWaitTime(this.currentQueueTimesMap.get(ride.rideId)),
+      )
       .sort((a, b) => (a.waitTime || 0) - (b.waitTime || 0))
       .slice(0, 5);
   }
@@ -461,11 +479,10 @@ export class StatisticsService {
           return currentQueueTime && currentQueueTime.isOpen;
         });
 
-        // Rides with waitTime data (for counting statistics)
-        const ridesWithData = allOpenRides.filter((ride: any) => {
-          const currentQueueTime = this.currentQueueTimesMap.get(ride.id);
-          return currentQueueTime && currentQueueTime.waitTime !== null;
-        });
+        // Rides with trusted waitTime data (for counting statistics)
+        const ridesWithData = allOpenRides.filter((ride: any) =>
+          this.hasTrustedWaitTime(this.currentQueueTimesMap.get(ride.id)),
+        );
 
         // Only rides with meaningful wait times (> 0) for average calculation
         const ridesWithWaitTime = ridesWithData.filter((ride: any) => {
@@ -534,11 +551,10 @@ export class StatisticsService {
           return currentQueueTime && currentQueueTime.isOpen;
         });
 
-        // Rides with waitTime data (for counting statistics)
-        const ridesWithData = allOpenRides.filter((ride: any) => {
-          const currentQueueTime = this.currentQueueTimesMap.get(ride.id);
-          return currentQueueTime && currentQueueTime.waitTime !== null;
-        });
+        // Rides with trusted waitTime data (for counting statistics)
+        const ridesWithData = allOpenRides.filter((ride: any) =>
+          this.hasTrustedWaitTime(this.currentQueueTimesMap.get(ride.id)),
+        );
 
         // Only rides with meaningful wait times (> 0) for average calculation
         const ridesWithWaitTime = ridesWithData.filter((ride: any) => {
@@ -40,7 +40,10 @@ export class CacheService implements ICacheService, OnModuleDestroy {
       enableReadyCheck: false,
       maxRetriesPerRequest: 3,
       lazyConnect: true,
-      keyPrefix: 'parkfan:cache:',
+      keyPrefix: this.configService.get<string>(
+        'REDIS_KEY_PREFIX',
+        'parkfan:cache:',
+      ),
     });
 
     this.redis.on('connect', () => {
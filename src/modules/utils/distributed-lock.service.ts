@@ -0,0 +1,122 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { CacheService } from './cache.service.js';
+
+/**
+ * Redis-backed leases so that only one API instance runs a background job at a time.
+ * A lease expires on its own when the holder dies, letting another instance take over
+ * on its next run. While the job is running the holder keeps renewing the lease.
+ */
+@Injectable()
+export class DistributedLockService {
+  private readonly logger = new Logger(DistributedLockService.name);
+  private readonly instanceId = randomUUID();
+
+  // Only touch the lease if this instance still holds it
+  private readonly RENEW_SCRIPT = `
+    if redis.call('get', KEYS[1]) == ARGV[1] then
+      return redis.call('pexpire', KEYS[1], ARGV[2])
+    end
+    return 0
+  `;
+  private readonly RELEASE_SCRIPT = `
+    if redis.call('get', KEYS[1]) == ARGV[1] then
+      return redis.call('del', KEYS[1])
+    end
+    return 0
+  `;
+
+  constructor(private readonly cacheService: CacheService) {}
+
+  /**
+   * Run a job while holding the named lease.
+   * @param name Lease name, shared by all instances running the same job
+   * @param ttlMs Lease duration - renewed every third of it while the job runs
+   * @returns false if the job was skipped because another instance holds the lease
+   * or Redis is unreachable
+   */
+  async runExclusive(
+    name: string,
+    ttlMs: number,
+    job: () => Promise<unknown>,
+  ): Promise<boolean> {
+    const key = this.getLockKey(name);
+    const token = `${this.instanceId}:${randomUUID()}`;
+
+    let acquired: boolean;
+    try {
+      const result = await this.cacheService
+        .getRedisClient()
+        .set(key, token, 'PX', ttlMs, 'NX');
+      acquired = result === 'OK';
+    } catch (error) {
+      // Without Redis there is no coordination - skip rather than have every instance run
+      // the job; the next scheduled run tries again
+      this.logger.warn(
+        `Could not acquire lease ${name}, skipping: ${error instanceof Error ? error.message : error}`,
+      );
+      return false;
+    }
+
+    if (!acquired) {
+      this.logger.debug(`Lease ${name} is held by another instance, skipping`);
+      return false;
+    }
+
+    const renewTimer = setInterval(
+      () => {
+        void this.renew(key, token, ttlMs, name);
+      },
+      Math.max(1000, Math.floor(ttlMs / 3)),
+    );
+
+    try {
+      await job();
+      return true;
+    } finally {
+      clearInterval(renewTimer);
+      await this.release(key, token, name);
+    }
+  }
+
+  private async renew(
+    key: string,
+    token: string,
+    ttlMs: number,
+    name: string,
+  ): Promise<void> {
+    try {
+      const renewed = await this.cacheService
+        .getRedisClient()
+        .eval(this.RENEW_SCRIPT, 1, key, token, ttlMs);
+      if (renewed !== 1) {
+        this.logger.warn(`Lost lease ${name} while the job was still running`);
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Failed to renew lease ${name}: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+  }
+
+  private async release(
+    key: string,
+    token: string,
+    name: string,
+  ): Promise<void> {
+    try {
+      await this.cacheService
+        .getRedisClient()
+        .eval(this.RELEASE_SCRIPT, 1, key, token);
+    } catch (error) {
+      // The lease expires on its own
+      this.logger.warn(
+        `Failed to release lease ${name}: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+  }
+
+  private getLockKey(name: string): string {
+    return `lock:${name}`;
+  }
+}
@@ -34,6 +34,24 @@ export class ParkUtilsService {
     return this.configService.get<number>('PARK_OPEN_THRESHOLD_PERCENT', 50);
   }
 
+  /**
+   * Get the calendar date of a moment in a park's time zone
+   * @returns Local date as YYYY-MM-DD, UTC date for unknown time zones
+   */
+  getLocalDate(timezone: string, date: Date = new Date()): string {
+    try {
+      // en-CA formats dates as YYYY-MM-DD
+      return new Intl.DateTimeFormat('en-CA', {
+        timeZone: timezone,
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+      }).format(date);
+    } catch {
+      return date.toISOString().split('T')[0];
+    }
+  }
+
   /**
    * Helper function to get all rides from a park (both from theme areas and direct park rides)
    * @param park Park object with themeAreas and rides
@@ -76,6 +94,7 @@ export class ParkUtilsService {
           waitTime: latest.waitTime,
           isOpen: latest.isOpen,
           lastUpdated: latest.lastUpdated,
+          suspect: latest.suspect,
         }
       : null;
   }
@@ -124,6 +143,7 @@ export class ParkUtilsService {
       .addSelect('qt."isOpen"', 'isOpen')
       .innerJoin(RideEntity, 'r', 'r.id = qt."rideId"')
       .where('r."parkId" = :parkId', { parkId })
+      .andWhere('r."isActive" = true')
       .orderBy('qt."rideId"')
       .addOrderBy('qt."lastUpdated"', 'DESC')
       .addOrderBy('qt."recordedAt"', 'DESC');
@@ -140,8 +160,25 @@ export class ParkUtilsService {
       .getRawOne();
 
     const resultRow = row || { totalRideCount: '0', openRideCount: '0' };
-    const totalRideCount = parseInt(resultRow.totalRideCount, 10);
-    const openRideCount = parseInt(resultRow.openRideCount, 10);
+    return this.calculateOperatingStatus(
+      parseInt(resultRow.totalRideCount, 10),
+      parseInt(resultRow.openRideCount, 10),
+      threshold,
+    );
+  }
+
+  /**
+   * Derive the operating status of a park from its ride counts
+   * @param totalRideCount Number of active rides with queue time data
+   * @param openRideCount Number of those rides that are open
+   * @param openThreshold Optional percentage threshold (0-100)
+   */
+  calculateOperatingStatus(
+    totalRideCount: number,
+    openRideCount: number,
+    openThreshold?: number,
+  ): ParkOperatingStatus {
+    const threshold = openThreshold ?? this.getDefaultOpenThreshold();
     const operatingPercentage =
       totalRideCount > 0
         ? Math.round((openRideCount / totalRideCount) * 100)
@@ -167,8 +204,10 @@ export class ParkUtilsService {
       .select('qt."rideId"', 'rideId')
       .addSelect('qt."isOpen"', 'isOpen')
       .addSelect('qt."waitTime"', 'waitTime')
+      .addSelect('qt.suspect', 'suspect')
       .innerJoin(RideEntity, 'r', 'r.id = qt."rideId"')
       .where('r."parkId" = :parkId', { parkId })
+      .andWhere('r."isActive" = true')
       .orderBy('qt."rideId"')
       .addOrderBy('qt."lastUpdated"', 'DESC')
       .addOrderBy('qt."recordedAt"', 'DESC');
@@ -190,7 +229,9 @@ export class ParkUtilsService {
       )
       .addSelect('COUNT(CASE WHEN latest."waitTime" > 120 THEN 1 END)', '120+')
       .from('(' + latestSubQuery.getQuery() + ')', 'latest')
-      .where('latest."isOpen" = true AND latest."waitTime" IS NOT NULL')
+      .where(
+        'latest."isOpen" = true AND latest."waitTime" IS NOT NULL AND latest.suspect = false',
+      )
       .setParameters(latestSubQuery.getParameters())
       .getRawOne();
 
@@ -9,6 +9,7 @@ export interface QueueTime {
   waitTime: number | null;
   isOpen: boolean;
   lastUpdated: Date;
+  suspect?: boolean;
 }
 
 export interface Ride {
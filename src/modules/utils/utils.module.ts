@@ -7,6 +7,7 @@ import { CacheControlInterceptor } from './cache-control.interceptor.js';
 import { HierarchicalUrlService } from './hierarchical-url.service.js';
 import { HierarchicalUrlInjectorService } from './hierarchical-url-injector.service.js';
 import { CacheService } from './cache.service.js';
+import { DistributedLockService } from './distributed-lock.service.js';
 import { Ride } from '../parks/ride.entity.js';
 import { QueueTime } from '../parks/queue-time.entity.js';
 
@@ -19,6 +20,7 @@ import { QueueTime } from '../parks/queue-time.entity.js';
     HierarchicalUrlService,
     HierarchicalUrlInjectorService,
     CacheService,
+    DistributedLockService,
   ],
   exports: [
     ParkUtilsService,
@@ -27,6 +29,7 @@ import { QueueTime } from '../parks/queue-time.entity.js';
     HierarchicalUrlService,
     HierarchicalUrlInjectorService,
     CacheService,
+    DistributedLockService,
   ],
 })
 export class UtilsModule {}